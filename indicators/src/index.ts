@@ -2,18 +2,48 @@
 import * as dotenv from 'dotenv';
 const express = require('express');
 import { IndicatorService } from './services/IndicatorService';
-import { DatabaseService } from './services/DatabaseService';
+import { createDatabaseService } from './services/database';
 import { SignalGenerator } from './services/SignalGenerator';
 import { TokenManager } from './services/TokenManager';
+import { SignalStream } from './services/SignalStream';
+import { WebhookDispatcher } from './services/WebhookDispatcher';
+import { BacktestService } from './services/BacktestService';
+import { PaperTradingService } from './services/PaperTradingService';
+import { MintMetadataService } from './services/MintMetadataService';
+import { RoutingService } from './services/RoutingService';
+import { PairDiscoveryService } from './services/PairDiscoveryService';
+import { WriteBuffer } from './services/WriteBuffer';
+import { MaintenanceService } from './services/MaintenanceService';
+import { getRateLimiterStatistics } from './services/RateLimiter';
+import { resilience } from './services/Resilience';
+import { createTokenRoutes } from './routes/tokens';
+import { createIndicatorRoutes } from './routes/indicators';
+import { createSignalRoutes } from './routes/signals';
+import { createWebhookRoutes } from './routes/webhooks';
+import { createBacktestRoutes } from './routes/backtests';
+import { createPositionRoutes } from './routes/positions';
+import { createStrategyRoutes } from './routes/strategies';
+import { asyncHandler, sendSuccess } from './routes/response';
+import { IDatabaseService } from './types/shared';
 
 // Load environment variables
 dotenv.config();
 
 class IndicatorUpdaterApp {
   private indicatorService: IndicatorService;
-  private databaseService: DatabaseService;
+  private databaseService: IDatabaseService;
   private signalGenerator: SignalGenerator;
   private tokenManager: TokenManager;
+  private signalStream: SignalStream;
+  private webhookDispatcher: WebhookDispatcher;
+  private backtestService: BacktestService;
+  private paperTradingService: PaperTradingService;
+  private mintMetadataService: MintMetadataService;
+  private routingService: RoutingService;
+  private pairDiscoveryService: PairDiscoveryService;
+  private writeBuffer: WriteBuffer;
+  private maintenanceService: MaintenanceService;
+  private paperTradingEnabled: boolean;
   private updateInterval: number;
   private isRunning: boolean = false;
   private app: any;
@@ -22,16 +52,65 @@ class IndicatorUpdaterApp {
   constructor() {
     this.updateInterval = parseInt(process.env.UPDATE_INTERVAL_MS || '60000', 10);
     this.port = parseInt(process.env.PORT || '10000', 10);
+    this.paperTradingEnabled = process.env.PAPER_TRADING_ENABLED === 'true';
     this.app = express(); // Initialize app here
-    this.databaseService = new DatabaseService();
-    this.signalGenerator = new SignalGenerator();
+    this.databaseService = createDatabaseService();
+    this.signalGenerator = new SignalGenerator({
+      MIN_VERTEX_AGE: parseInt(process.env.MIN_VERTEX_AGE || '20', 10),
+      MAX_VERTEX_AGE: parseInt(process.env.MAX_VERTEX_AGE || '120', 10),
+      SIGNAL_EXPIRY_MINUTES: parseInt(process.env.SIGNAL_EXPIRY_MINUTES || '15', 10),
+      STABILITY_BUFFER: parseInt(process.env.STABILITY_BUFFER || '3', 10),
+      WEIGHTED_ALPHA: parseFloat(process.env.WEIGHTED_ALPHA || '0.5')
+    });
     this.tokenManager = new TokenManager(this.databaseService);
+    this.signalStream = new SignalStream();
+    this.webhookDispatcher = new WebhookDispatcher(this.databaseService, {
+      MAX_ATTEMPTS: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10),
+      RETRY_BASE_MS: parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '1000', 10),
+      TIMEOUT_MS: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10)
+    });
+    this.backtestService = new BacktestService(this.databaseService, this.signalGenerator);
+    this.paperTradingService = new PaperTradingService(this.databaseService);
+    this.mintMetadataService = new MintMetadataService(this.tokenManager);
+    this.routingService = new RoutingService(this.tokenManager);
+    this.pairDiscoveryService = new PairDiscoveryService(this.databaseService, this.tokenManager);
+    this.writeBuffer = new WriteBuffer(this.databaseService);
+    this.maintenanceService = new MaintenanceService(this.databaseService, {
+      indicatorDays: parseFloat(process.env.RETENTION_INDICATOR_DAYS || '7'),
+      candleDays: {
+        '5m': parseFloat(process.env.RETENTION_CANDLES_5M_DAYS || '90'),
+        '1h': parseFloat(process.env.RETENTION_CANDLES_1H_DAYS || '730'),
+        '1d': parseFloat(process.env.RETENTION_CANDLES_1D_DAYS || '0')
+      },
+      expiredSignalDays: parseFloat(process.env.RETENTION_EXPIRED_SIGNAL_DAYS || '30'),
+      settleMinutes: parseInt(process.env.ROLLUP_SETTLE_MINUTES || '15', 10)
+    });
     this.indicatorService = new IndicatorService(
       this.databaseService,
       this.signalGenerator,
-      this.tokenManager
+      this.tokenManager,
+      this.pairDiscoveryService,
+      this.writeBuffer
     );
     this.setupHealthEndpoint();
+    this.setupApiRoutes();
+  }
+
+  private setupApiRoutes(): void {
+    this.app.use(express.json({ limit: '10mb' }));
+    this.app.use('/tokens', createTokenRoutes(this.tokenManager, this.routingService, this.pairDiscoveryService));
+    this.app.use('/indicators', createIndicatorRoutes(this.databaseService));
+    this.app.use('/signals', createSignalRoutes(this.databaseService));
+    this.app.use('/webhooks', createWebhookRoutes(this.databaseService));
+    this.app.use('/backtests', createBacktestRoutes(this.backtestService));
+    this.app.use('/positions', createPositionRoutes(this.paperTradingService, this.databaseService));
+    this.app.use('/strategies', createStrategyRoutes(this.databaseService, this.paperTradingService));
+
+    this.app.get('/stream', (req: any, res: any) => this.signalStream.handleSse(req, res));
+
+    this.app.get('/stats', asyncHandler(async (req, res) => {
+      sendSuccess(res, await this.databaseService.getTokenStatistics());
+    }));
   }
 
   private setupHealthEndpoint(): void {
@@ -41,7 +120,13 @@ class IndicatorUpdaterApp {
         uptime: process.uptime(),
         timestamp: new Date().toISOString(),
         service: 'position-keeper-indicators',
-        isRunning: this.isRunning
+        isRunning: this.isRunning,
+        stream: this.signalStream.getStatistics(),
+        webhooks: this.webhookDispatcher.getStatistics(),
+        rateLimits: getRateLimiterStatistics(),
+        circuitBreakers: resilience().getBreakerStates(),
+        writeBuffer: this.writeBuffer.getStatistics(),
+        paperTrading: this.paperTradingEnabled ? this.paperTradingService.getStatistics() : 'disabled'
       });
     });
 
@@ -73,6 +158,23 @@ class IndicatorUpdaterApp {
       await this.validateConfiguration();
       console.log('✅ Configuration validated');
 
+      // Tokens without a trading currency follow their pair's quote currency,
+      // so routes are resolved before history is loaded or priced
+      await this.refreshRouting();
+
+      // Rebuild price history so signals don't wait hours after a restart
+      await this.warmStartHistory();
+
+      // Stream clients get the last known state until the first cycle finishes
+      await this.seedSignalStream();
+
+      // Real decimals and supply before the first cycle writes indicators
+      await this.refreshMintMetadata();
+
+      if (this.paperTradingEnabled) {
+        await this.paperTradingService.initialize();
+      }
+
     } catch (error) {
       console.error('❌ Initialization failed:', error);
       process.exit(1);
@@ -80,11 +182,10 @@ class IndicatorUpdaterApp {
   }
 
   async validateConfiguration(): Promise<void> {
-    const required = [
-      'CLOUDFLARE_D1_DATABASE_URL',
-      'CLOUDFLARE_D1_TOKEN',
-      'QUICKNODE_URL'
-    ];
+    const required = ['QUICKNODE_URL'];
+    if ((process.env.DATABASE_BACKEND || 'd1').toLowerCase() === 'd1') {
+      required.push('CLOUDFLARE_D1_DATABASE_URL', 'CLOUDFLARE_D1_TOKEN');
+    }
 
     for (const key of required) {
       if (!process.env[key]) {
@@ -101,6 +202,92 @@ class IndicatorUpdaterApp {
     }
   }
 
+  async warmStartHistory(): Promise<void> {
+    try {
+      const { restored, skipped } = await this.indicatorService.warmStart();
+      console.log(`✅ Price history warm-started for ${restored} tokens`);
+      skipped.forEach(reason => console.log(`   - Skipped ${reason}`));
+    } catch (error) {
+      // A cold start is still a working start
+      console.warn('⚠️  Price history warm-start failed, starting cold:', error);
+    }
+  }
+
+  async seedSignalStream(): Promise<void> {
+    try {
+      const symbols = await this.signalStream.seed(this.databaseService);
+      console.log(`📡 Signal stream seeded with ${symbols} tokens`);
+    } catch (error) {
+      console.warn('⚠️  Signal stream seeding failed, starting empty:', error);
+    }
+  }
+
+  async refreshMintMetadata(): Promise<void> {
+    try {
+      const { refreshed, failed } = await this.mintMetadataService.refreshAll();
+      if (refreshed > 0) {
+        console.log(`🪙 Refreshed mint metadata for ${refreshed} tokens`);
+      }
+      failed.forEach(reason => console.warn(`⚠️  Mint metadata: ${reason}`));
+    } catch (error) {
+      console.warn('⚠️  Mint metadata refresh failed:', error);
+    }
+  }
+
+  async refreshRouting(): Promise<void> {
+    try {
+      const { refreshed, failed } = await this.routingService.refreshAll();
+      if (refreshed > 0) {
+        console.log(`🧭 Refreshed routing for ${refreshed} tokens`);
+      }
+      failed.forEach(reason => console.warn(`⚠️  Routing: ${reason}`));
+    } catch (error) {
+      console.warn('⚠️  Routing refresh failed:', error);
+    }
+  }
+
+  async refreshPairCandidates(): Promise<void> {
+    try {
+      const { refreshed, failed } = await this.pairDiscoveryService.refreshAll();
+      if (refreshed > 0) {
+        console.log(`🔎 Refreshed pair candidates for ${refreshed} tokens`);
+      }
+      failed.forEach(reason => console.warn(`⚠️  Pair discovery: ${reason}`));
+    } catch (error) {
+      console.warn('⚠️  Pair discovery failed:', error);
+    }
+  }
+
+  async replayWriteBuffer(): Promise<void> {
+    try {
+      const { replayed, remaining, updates } = await this.writeBuffer.replay();
+      if (replayed > 0) {
+        console.log(`📦 Replayed ${replayed} buffered cycles (${remaining} remaining)`);
+      }
+
+      // Transitions of buffered cycles are only known now; the stream already
+      // announced the direction changes live
+      this.webhookDispatcher.dispatch({ updates }).catch(error => {
+        console.error('❌ Webhook dispatch failed:', error);
+      });
+    } catch (error) {
+      console.warn('⚠️  Write buffer replay failed:', error);
+    }
+  }
+
+  async runMaintenance(): Promise<void> {
+    try {
+      const { candles, failed } = await this.maintenanceService.runAll();
+      const written = candles['5m'] + candles['1h'] + candles['1d'];
+      if (written > 0) {
+        console.log(`🕯️  Rolled up candles: ${candles['5m']} 5m, ${candles['1h']} 1h, ${candles['1d']} 1d`);
+      }
+      failed.forEach(reason => console.warn(`⚠️  Maintenance: ${reason}`));
+    } catch (error) {
+      console.warn('⚠️  Maintenance failed:', error);
+    }
+  }
+
   async start(): Promise<void> {
     if (this.isRunning) {
       console.warn('⚠️  Service already running');
@@ -108,9 +295,10 @@ class IndicatorUpdaterApp {
     }
 
     // Start HTTP server for health checks
-    this.app.listen(this.port, () => {
+    const server = this.app.listen(this.port, () => {
       console.log(`🌐 Health check server running on port ${this.port}`);
     });
+    this.signalStream.attach(server);
 
     this.isRunning = true;
     console.log('🔥 Starting indicator update loop...');
@@ -127,6 +315,54 @@ class IndicatorUpdaterApp {
       }
     }, this.updateInterval);
 
+    // Mint details change rarely; only missing or expired entries are re-read
+    const mintIntervalId = setInterval(async () => {
+      if (this.isRunning) {
+        await this.refreshMintMetadata();
+      } else {
+        clearInterval(mintIntervalId);
+      }
+    }, MintMetadataService.CHECK_INTERVAL_MS);
+
+    // Fallback pairs for tokens that have none yet, then on a slow schedule
+    this.refreshPairCandidates();
+    const pairIntervalId = setInterval(async () => {
+      if (this.isRunning) {
+        await this.refreshPairCandidates();
+      } else {
+        clearInterval(pairIntervalId);
+      }
+    }, PairDiscoveryService.CHECK_INTERVAL_MS);
+
+    // Missing routes were resolved during initialization; expired ones are rechecked hourly
+    const routingIntervalId = setInterval(async () => {
+      if (this.isRunning) {
+        await this.refreshRouting();
+      } else {
+        clearInterval(routingIntervalId);
+      }
+    }, RoutingService.CHECK_INTERVAL_MS);
+
+    // Cycles buffered while the database was unreachable, oldest first
+    this.replayWriteBuffer();
+    const replayIntervalId = setInterval(async () => {
+      if (this.isRunning) {
+        await this.replayWriteBuffer();
+      } else {
+        clearInterval(replayIntervalId);
+      }
+    }, WriteBuffer.CHECK_INTERVAL_MS);
+
+    // Candle rollups and retention, off the update path
+    this.runMaintenance();
+    const maintenanceIntervalId = setInterval(async () => {
+      if (this.isRunning) {
+        await this.runMaintenance();
+      } else {
+        clearInterval(maintenanceIntervalId);
+      }
+    }, MaintenanceService.CHECK_INTERVAL_MS);
+
     // Graceful shutdown handling
     process.on('SIGINT', () => this.shutdown());
     process.on('SIGTERM', () => this.shutdown());
@@ -139,6 +375,19 @@ class IndicatorUpdaterApp {
     try {
       const result = await this.indicatorService.updateAllTokens();
       const duration = Date.now() - startTime;
+
+      // Push fresh indicators and signal changes to stream subscribers
+      this.signalStream.publish(result);
+      this.webhookDispatcher.dispatch(result).catch(error => {
+        console.error('❌ Webhook dispatch failed:', error);
+      });
+
+      if (this.paperTradingEnabled) {
+        const trades = await this.paperTradingService.processCycle(result);
+        if (trades.opened + trades.closed > 0) {
+          console.log(`📒 Paper trades: ${trades.opened} opened, ${trades.closed} closed`);
+        }
+      }
       
       console.log(`✅ Update cycle completed in ${duration}ms`);
       console.log(`📊 Processed: ${result.processed} tokens`);
@@ -161,8 +410,10 @@ class IndicatorUpdaterApp {
   async shutdown(): Promise<void> {
     console.log('\n🛑 Shutting down gracefully...');
     this.isRunning = false;
+    this.signalStream.close();
 
     try {
+      await this.webhookDispatcher.flush();
       await this.databaseService.close();
       console.log('✅ Database connections closed');
     } catch (error) {
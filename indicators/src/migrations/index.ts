@@ -0,0 +1,315 @@
+// src/migrations/index.ts
+
+/**
+ * Adds a column unless it already exists. Databases that predate
+ * schema_migrations may have gained the column from an earlier ad-hoc check.
+ */
+export interface AddColumnStep {
+  table: string;
+  column: string;
+  definition: string;
+}
+
+export type MigrationStep = string | AddColumnStep;
+
+export interface Migration {
+  version: number;
+  name: string;
+  steps: MigrationStep[];
+}
+
+/**
+ * Schema history, applied in version order by DatabaseService.initialize.
+ * Never edit a migration that has shipped; add a new one instead. Every step
+ * must be safe against a database that was set up before migrations existed,
+ * hence IF NOT EXISTS throughout.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'core_schema',
+    steps: [
+      `CREATE TABLE IF NOT EXISTS tokens (
+        symbol TEXT PRIMARY KEY,
+        pair TEXT NOT NULL,
+        mint TEXT NOT NULL,
+        active INTEGER DEFAULT 1,
+        routing_info TEXT,
+        notes TEXT
+      )`,
+      `CREATE TABLE IF NOT EXISTS indicators (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        symbol TEXT NOT NULL,
+        price REAL NOT NULL,
+        native_price REAL,
+        native_currency TEXT,
+        trading_currency TEXT,
+        currency_mismatch INTEGER DEFAULT 0,
+        rsi_1m REAL,
+        rsi_5m REAL,
+        rsi_15m REAL,
+        ema_1m REAL,
+        ema_5m REAL,
+        ema_15m REAL,
+        ema_trend TEXT,
+        volume_24h REAL,
+        market_cap REAL,
+        volume_to_cap_ratio REAL,
+        trend_score REAL,
+        hourly_change_pct REAL,
+        drawdown_from_peak REAL,
+        volatility_pct REAL,
+        decimals INTEGER,
+        analysis_mode TEXT,
+        timestamp INTEGER NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS signals (
+        symbol TEXT NOT NULL,
+        direction TEXT NOT NULL,
+        confidence REAL,
+        reason TEXT,
+        vertex_age INTEGER,
+        trend_strength TEXT,
+        pattern TEXT,
+        magnitude REAL,
+        stable INTEGER DEFAULT 0,
+        first_detected INTEGER NOT NULL,
+        last_evaluated INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      )`,
+      // Newest row per symbol
+      `CREATE VIEW IF NOT EXISTS latest_indicators AS
+        SELECT * FROM indicators i
+        WHERE timestamp = (SELECT MAX(timestamp) FROM indicators WHERE symbol = i.symbol)`
+    ]
+  },
+  {
+    version: 2,
+    name: 'indicator_source_columns',
+    steps: [
+      // Which price source produced each row, and its USD price
+      { table: 'indicators', column: 'price_source', definition: 'TEXT' },
+      { table: 'indicators', column: 'price_usd', definition: 'REAL' }
+    ]
+  },
+  {
+    version: 3,
+    name: 'signal_transitions',
+    steps: [
+      // Direction changes are recorded as events alongside the signals table
+      `CREATE TABLE IF NOT EXISTS signal_transitions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        symbol TEXT NOT NULL,
+        from_direction TEXT,
+        to_direction TEXT NOT NULL,
+        confidence REAL,
+        reason TEXT,
+        transitioned_at INTEGER NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 4,
+    name: 'webhooks',
+    steps: [
+      `CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        symbols TEXT,
+        directions TEXT,
+        min_confidence REAL DEFAULT 0,
+        stable_only INTEGER DEFAULT 0,
+        active INTEGER DEFAULT 1,
+        created_at INTEGER NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        subscription_id INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        error TEXT,
+        attempts INTEGER NOT NULL,
+        failed_at INTEGER NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 5,
+    name: 'trading',
+    steps: [
+      // Simulated and backtest trades (Trade)
+      `CREATE TABLE IF NOT EXISTS trades (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        wallet_address TEXT,
+        symbol TEXT NOT NULL,
+        strategy_type TEXT NOT NULL,
+        buy_price REAL NOT NULL,
+        buy_timestamp INTEGER NOT NULL,
+        buy_tx_id TEXT,
+        entry_signal TEXT,
+        sell_price REAL,
+        sell_timestamp INTEGER,
+        sell_tx_id TEXT,
+        reason TEXT,
+        amount_tokens REAL NOT NULL,
+        pnl_pct REAL,
+        peak_pnl_pct REAL,
+        drawdown_pct REAL,
+        duration_seconds INTEGER,
+        is_backtest INTEGER DEFAULT 0,
+        backtest_id TEXT
+      )`,
+      // Strategy definitions used by paper trading (TradingStrategy)
+      `CREATE TABLE IF NOT EXISTS strategies (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        wallet_address TEXT NOT NULL,
+        strategy_name TEXT NOT NULL,
+        strategy_type TEXT NOT NULL,
+        parameters TEXT,
+        active INTEGER DEFAULT 1,
+        created_at INTEGER NOT NULL
+      )`,
+      // Runtime settings (SystemConfig)
+      `CREATE TABLE IF NOT EXISTS system_config (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        description TEXT,
+        updated_at INTEGER
+      )`
+    ]
+  },
+  {
+    version: 6,
+    name: 'pair_candidates',
+    steps: [
+      // Ranked pools per token, used as price fallbacks
+      `CREATE TABLE IF NOT EXISTS pair_candidates (
+        symbol TEXT NOT NULL,
+        pair_address TEXT NOT NULL,
+        dex_id TEXT,
+        quote_currency TEXT,
+        liquidity_usd REAL DEFAULT 0,
+        volume_24h REAL DEFAULT 0,
+        score REAL DEFAULT 0,
+        rank INTEGER NOT NULL,
+        discovered_at INTEGER NOT NULL,
+        PRIMARY KEY (symbol, pair_address)
+      )`
+    ]
+  },
+  {
+    version: 7,
+    name: 'query_indexes',
+    steps: [
+      // History, warm start and the latest_indicators view
+      `CREATE INDEX IF NOT EXISTS idx_indicators_symbol_timestamp ON indicators (symbol, timestamp)`,
+      // Retention cleanup and latest-update statistics
+      `CREATE INDEX IF NOT EXISTS idx_indicators_timestamp ON indicators (timestamp)`,
+      // Current signal per symbol and signal history
+      `CREATE INDEX IF NOT EXISTS idx_signals_symbol_last_evaluated ON signals (symbol, last_evaluated)`,
+      // Active signals and expiry cleanup
+      `CREATE INDEX IF NOT EXISTS idx_signals_expires_at ON signals (expires_at)`,
+      `CREATE INDEX IF NOT EXISTS idx_signal_transitions_symbol_time ON signal_transitions (symbol, transitioned_at)`,
+      `CREATE INDEX IF NOT EXISTS idx_webhook_dead_letters_failed_at ON webhook_dead_letters (failed_at)`,
+      `CREATE INDEX IF NOT EXISTS idx_trades_backtest_id ON trades (backtest_id)`,
+      `CREATE INDEX IF NOT EXISTS idx_trades_symbol_buy_timestamp ON trades (symbol, buy_timestamp)`
+    ]
+  },
+  {
+    version: 8,
+    name: 'unique_indicator_rows',
+    steps: [
+      // One row per symbol and timestamp, so buffered writes can be replayed safely
+      `DELETE FROM indicators WHERE rowid NOT IN (
+        SELECT MIN(rowid) FROM indicators GROUP BY symbol, timestamp
+      )`,
+      `DROP INDEX IF EXISTS idx_indicators_symbol_timestamp`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_indicators_symbol_timestamp ON indicators (symbol, timestamp)`
+    ]
+  },
+  {
+    version: 9,
+    name: 'candles',
+    steps: [
+      // OHLCV rollups of the raw indicators rows, keyed by bucket start (unix seconds)
+      `CREATE TABLE IF NOT EXISTS candles_5m (
+        symbol TEXT NOT NULL,
+        bucket_start INTEGER NOT NULL,
+        open REAL NOT NULL,
+        high REAL NOT NULL,
+        low REAL NOT NULL,
+        close REAL NOT NULL,
+        volume_24h REAL,
+        samples INTEGER NOT NULL,
+        PRIMARY KEY (symbol, bucket_start)
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_candles_5m_bucket_start ON candles_5m (bucket_start)`,
+      `CREATE TABLE IF NOT EXISTS candles_1h (
+        symbol TEXT NOT NULL,
+        bucket_start INTEGER NOT NULL,
+        open REAL NOT NULL,
+        high REAL NOT NULL,
+        low REAL NOT NULL,
+        close REAL NOT NULL,
+        volume_24h REAL,
+        samples INTEGER NOT NULL,
+        PRIMARY KEY (symbol, bucket_start)
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_candles_1h_bucket_start ON candles_1h (bucket_start)`,
+      `CREATE TABLE IF NOT EXISTS candles_1d (
+        symbol TEXT NOT NULL,
+        bucket_start INTEGER NOT NULL,
+        open REAL NOT NULL,
+        high REAL NOT NULL,
+        low REAL NOT NULL,
+        close REAL NOT NULL,
+        volume_24h REAL,
+        samples INTEGER NOT NULL,
+        PRIMARY KEY (symbol, bucket_start)
+      )`,
+      `CREATE INDEX IF NOT EXISTS idx_candles_1d_bucket_start ON candles_1d (bucket_start)`,
+      // How far each rollup has progressed; buckets before rolled_until are final
+      `CREATE TABLE IF NOT EXISTS rollup_state (
+        interval TEXT PRIMARY KEY,
+        rolled_until INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )`
+    ]
+  },
+  {
+    version: 10,
+    name: 'trade_strategy_id',
+    steps: [
+      // The strategy that opened each paper trade; a wallet may run several of one type
+      { table: 'trades', column: 'strategy_id', definition: 'INTEGER' }
+    ]
+  },
+  {
+    version: 11,
+    name: 'unique_signal_rows',
+    steps: [
+      // One signal row per evaluation and one transition per moment, so a
+      // batch that committed but is sent again (retry or replay) is ignored
+      `DELETE FROM signals WHERE rowid NOT IN (
+        SELECT MIN(rowid) FROM signals GROUP BY symbol, last_evaluated
+      )`,
+      `DROP INDEX IF EXISTS idx_signals_symbol_last_evaluated`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_signals_symbol_last_evaluated ON signals (symbol, last_evaluated)`,
+      `DELETE FROM signal_transitions WHERE rowid NOT IN (
+        SELECT MIN(rowid) FROM signal_transitions GROUP BY symbol, transitioned_at
+      )`,
+      `DROP INDEX IF EXISTS idx_signal_transitions_symbol_time`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_signal_transitions_symbol_time ON signal_transitions (symbol, transitioned_at)`
+    ]
+  },
+  {
+    version: 12,
+    name: 'rollup_pruned_until',
+    steps: [
+      // Source rows before this were deleted by retention, so buckets there
+      // can't be recomputed when a late row arrives
+      { table: 'rollup_state', column: 'pruned_until', definition: 'INTEGER' }
+    ]
+  }
+];
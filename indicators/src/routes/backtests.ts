@@ -0,0 +1,75 @@
+// src/routes/backtests.ts
+const express = require('express');
+import { BacktestService } from '../services/BacktestService';
+import { createStrategy, StrategyParameterError } from '../strategies';
+import { sendSuccess, sendError, asyncHandler, parseNumberParam, BadRequestError } from './response';
+
+export function createBacktestRoutes(backtestService: BacktestService): any {
+  const router = express.Router();
+
+  // Run a backtest over stored history (hours or from/to) or an imported
+  // price series ("prices" as an array or CSV/JSON file contents)
+  router.post('/', asyncHandler(async (req, res) => {
+    const body = req.body || {};
+
+    if (typeof body.symbol !== 'string' || !body.symbol.trim()) {
+      return sendError(res, 400, 'Body must include "symbol"');
+    }
+
+    const strategy = {
+      strategy_type: body.strategy?.strategy_type,
+      parameters: body.strategy?.parameters || {}
+    };
+
+    try {
+      createStrategy(strategy);
+    } catch (error) {
+      if (error instanceof StrategyParameterError) {
+        return sendError(res, 400, error.message);
+      }
+      throw error;
+    }
+
+    if (body.prices !== undefined && typeof body.prices !== 'string' && !Array.isArray(body.prices)) {
+      return sendError(res, 400, '"prices" must be an array or CSV/JSON file contents');
+    }
+
+    let prices;
+    try {
+      prices = typeof body.prices === 'string'
+        ? BacktestService.parsePriceFile(body.prices)
+        : Array.isArray(body.prices)
+          ? BacktestService.parsePriceFile(JSON.stringify(body.prices))
+          : undefined;
+    } catch (error) {
+      throw new BadRequestError(`Malformed "prices": ${error instanceof Error ? error.message : 'unreadable'}`);
+    }
+
+    if (prices && prices.length === 0) {
+      return sendError(res, 400, 'No valid price points found in "prices"');
+    }
+
+    const result = await backtestService.run({
+      symbol: body.symbol,
+      strategy,
+      hours: parseNumberParam(body.hours, 'hours', { min: 1, max: 24 * 90 }),
+      from: parseNumberParam(body.from, 'from', { min: 0 }),
+      to: parseNumberParam(body.to, 'to', { min: 0 }),
+      prices,
+      persist: body.persist !== false
+    });
+
+    sendSuccess(res, result, 201);
+  }));
+
+  router.get('/:id', asyncHandler(async (req, res) => {
+    const result = await backtestService.getBacktest(req.params.id);
+    if (!result) {
+      return sendError(res, 404, `Backtest ${req.params.id} not found`);
+    }
+
+    sendSuccess(res, result);
+  }));
+
+  return router;
+}
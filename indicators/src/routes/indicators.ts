@@ -0,0 +1,42 @@
+// src/routes/indicators.ts
+const express = require('express');
+import { IDatabaseService } from '../types/shared';
+import { sendSuccess, sendError, asyncHandler, parseHistoryQuery, paginate } from './response';
+
+export function createIndicatorRoutes(databaseService: IDatabaseService): any {
+  const router = express.Router();
+
+  // Latest indicator row for every token, optionally ?symbols=BONK,WIF
+  router.get('/', asyncHandler(async (req, res) => {
+    let indicators = await databaseService.getLatestIndicators();
+
+    if (typeof req.query.symbols === 'string' && req.query.symbols.trim()) {
+      const symbols = req.query.symbols.split(',').map((s: string) => s.trim().toUpperCase());
+      indicators = indicators.filter(row => symbols.includes(row.symbol));
+    }
+
+    sendSuccess(res, indicators);
+  }));
+
+  router.get('/:symbol', asyncHandler(async (req, res) => {
+    const symbol = req.params.symbol.toUpperCase();
+    const [latest] = await databaseService.getLatestIndicators(symbol);
+    if (!latest) {
+      return sendError(res, 404, `No indicators found for ${symbol}`);
+    }
+
+    sendSuccess(res, latest);
+  }));
+
+  // Oldest first; ?hours= or ?from=&to= (unix seconds), ?limit=&offset=
+  router.get('/:symbol/history', asyncHandler(async (req, res) => {
+    const symbol = req.params.symbol.toUpperCase();
+    const { hours, range } = parseHistoryQuery(req.query, 500);
+
+    sendSuccess(res, await paginate(range, page =>
+      databaseService.getIndicatorHistory(symbol, hours, page)
+    ));
+  }));
+
+  return router;
+}
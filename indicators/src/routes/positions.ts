@@ -0,0 +1,30 @@
+// src/routes/positions.ts
+const express = require('express');
+import { IDatabaseService } from '../types/shared';
+import { PaperTradingService } from '../services/PaperTradingService';
+import { sendSuccess, asyncHandler } from './response';
+
+export function createPositionRoutes(
+  paperTradingService: PaperTradingService,
+  databaseService: IDatabaseService
+): any {
+  const router = express.Router();
+
+  // Open paper-trading positions, optionally ?symbol=BONK
+  router.get('/', asyncHandler(async (req, res) => {
+    const symbol = typeof req.query.symbol === 'string' ? req.query.symbol.toUpperCase() : undefined;
+    sendSuccess(res, paperTradingService.getOpenPositions(symbol));
+  }));
+
+  // Closed paper trades, newest first
+  router.get('/history', asyncHandler(async (req, res) => {
+    const symbol = typeof req.query.symbol === 'string' ? req.query.symbol.toUpperCase() : undefined;
+    const trades = await databaseService.getTrades({ isBacktest: false, symbol });
+
+    sendSuccess(res, trades
+      .filter(trade => trade.sell_timestamp !== undefined)
+      .sort((a, b) => b.sell_timestamp! - a.sell_timestamp!));
+  }));
+
+  return router;
+}
@@ -0,0 +1,95 @@
+// src/routes/response.ts
+import { ApiResponse, HistoryRange, PaginatedResult } from '../types/shared';
+
+// Helpers for wrapping every route result in the shared ApiResponse envelope
+export function sendSuccess<T>(res: any, data: T, status: number = 200): void {
+  const body: ApiResponse<T> = {
+    success: true,
+    data,
+    timestamp: Date.now()
+  };
+  res.status(status).json(body);
+}
+
+export function sendError(res: any, status: number, error: string): void {
+  const body: ApiResponse = {
+    success: false,
+    error,
+    timestamp: Date.now()
+  };
+  res.status(status).json(body);
+}
+
+// Thrown by request parsing helpers; reported to the client as a 400
+export class BadRequestError extends Error {}
+
+// Wrap an async handler so unexpected failures become a 500 envelope
+export function asyncHandler(handler: (req: any, res: any) => Promise<void>) {
+  return (req: any, res: any) => {
+    handler(req, res).catch(error => {
+      if (error instanceof BadRequestError) {
+        return sendError(res, 400, error.message);
+      }
+
+      console.error(`❌ ${req.method} ${req.originalUrl} failed:`, error);
+      sendError(res, 500, error instanceof Error ? error.message : 'Internal server error');
+    });
+  };
+}
+
+export function parseNumberParam(
+  value: any,
+  name: string,
+  bounds: { min?: number; max?: number } = {}
+): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+
+  const parsed = Number(value);
+  if (isNaN(parsed)) {
+    throw new BadRequestError(`Query parameter "${name}" must be a number`);
+  }
+  if (bounds.min !== undefined && parsed < bounds.min) {
+    throw new BadRequestError(`Query parameter "${name}" must be >= ${bounds.min}`);
+  }
+  if (bounds.max !== undefined && parsed > bounds.max) {
+    throw new BadRequestError(`Query parameter "${name}" must be <= ${bounds.max}`);
+  }
+
+  return parsed;
+}
+
+// Parse ?hours=&from=&to=&limit=&offset= into a history range
+export function parseHistoryQuery(query: any, defaultLimit: number): {
+  hours: number;
+  range: HistoryRange;
+} {
+  const hours = parseNumberParam(query.hours, 'hours', { min: 0, max: 24 * 90 }) ?? 24;
+  const limit = parseNumberParam(query.limit, 'limit', { min: 1, max: 1000 }) ?? defaultLimit;
+
+  return {
+    hours,
+    range: {
+      from: parseNumberParam(query.from, 'from', { min: 0 }),
+      to: parseNumberParam(query.to, 'to', { min: 0 }),
+      limit: Math.floor(limit),
+      offset: Math.floor(parseNumberParam(query.offset, 'offset', { min: 0 }) ?? 0)
+    }
+  };
+}
+
+// Query one extra row so callers can report whether another page exists
+export async function paginate<T>(
+  range: HistoryRange,
+  fetchPage: (range: HistoryRange) => Promise<T[]>
+): Promise<PaginatedResult<T>> {
+  const rows = await fetchPage({ ...range, limit: range.limit + 1 });
+
+  return {
+    items: rows.slice(0, range.limit),
+    limit: range.limit,
+    offset: range.offset || 0,
+    hasMore: rows.length > range.limit
+  };
+}
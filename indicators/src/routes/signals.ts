@@ -0,0 +1,67 @@
+// src/routes/signals.ts
+const express = require('express');
+import { IDatabaseService } from '../types/shared';
+import { sendSuccess, sendError, asyncHandler, parseHistoryQuery, parseNumberParam, paginate } from './response';
+
+export function createSignalRoutes(databaseService: IDatabaseService): any {
+  const router = express.Router();
+
+  // Current signal per symbol; filter with ?symbols=&direction=&stable=&minConfidence=
+  router.get('/', asyncHandler(async (req, res) => {
+    let signals = await databaseService.getActiveSignals();
+
+    if (typeof req.query.symbols === 'string' && req.query.symbols.trim()) {
+      const symbols = req.query.symbols.split(',').map((s: string) => s.trim().toUpperCase());
+      signals = signals.filter(signal => symbols.includes(signal.symbol));
+    }
+
+    if (typeof req.query.direction === 'string') {
+      const direction = req.query.direction.toUpperCase();
+      if (!['BUY', 'SELL', 'NONE'].includes(direction)) {
+        return sendError(res, 400, 'Query parameter "direction" must be BUY, SELL or NONE');
+      }
+      signals = signals.filter(signal => signal.direction === direction);
+    }
+
+    if (req.query.stable !== undefined) {
+      const stable = req.query.stable === 'true' ? 1 : 0;
+      signals = signals.filter(signal => signal.stable === stable);
+    }
+
+    const minConfidence = parseNumberParam(req.query.minConfidence, 'minConfidence', { min: 0, max: 1 });
+    if (minConfidence !== undefined) {
+      signals = signals.filter(signal => signal.confidence >= minConfidence);
+    }
+
+    sendSuccess(res, signals);
+  }));
+
+  router.get('/:symbol', asyncHandler(async (req, res) => {
+    const symbol = req.params.symbol.toUpperCase();
+    const [signal] = await databaseService.getActiveSignals(symbol);
+    if (!signal) {
+      return sendError(res, 404, `No active signal for ${symbol}`);
+    }
+
+    sendSuccess(res, signal);
+  }));
+
+  // Newest first; ?hours= or ?from=&to= (unix seconds), ?limit=&offset=
+  router.get('/:symbol/history', asyncHandler(async (req, res) => {
+    const symbol = req.params.symbol.toUpperCase();
+    const { hours, range } = parseHistoryQuery(req.query, 100);
+
+    sendSuccess(res, await paginate(range, page =>
+      databaseService.getSignalHistory(symbol, hours, page)
+    ));
+  }));
+
+  router.get('/:symbol/transitions', asyncHandler(async (req, res) => {
+    const symbol = req.params.symbol.toUpperCase();
+    const { hours } = parseHistoryQuery(req.query, 100);
+
+    sendSuccess(res, await databaseService.getSignalTransitions(symbol, hours));
+  }));
+
+  return router;
+}
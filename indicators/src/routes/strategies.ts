@@ -0,0 +1,66 @@
+// src/routes/strategies.ts
+const express = require('express');
+import { TradingStrategy, IDatabaseService } from '../types/shared';
+import { PaperTradingService } from '../services/PaperTradingService';
+import { createStrategy, StrategyParameterError } from '../strategies';
+import { sendSuccess, sendError, asyncHandler, parseNumberParam } from './response';
+
+export function createStrategyRoutes(
+  databaseService: IDatabaseService,
+  paperTradingService: PaperTradingService
+): any {
+  const router = express.Router();
+
+  router.get('/', asyncHandler(async (req, res) => {
+    sendSuccess(res, await databaseService.getStrategies(false));
+  }));
+
+  router.post('/', asyncHandler(async (req, res) => {
+    const body = req.body || {};
+
+    if (typeof body.wallet_address !== 'string' || !body.wallet_address) {
+      return sendError(res, 400, 'Body must include "wallet_address"');
+    }
+    if (typeof body.strategy_name !== 'string' || !body.strategy_name) {
+      return sendError(res, 400, 'Body must include "strategy_name"');
+    }
+
+    const strategy: TradingStrategy = {
+      wallet_address: body.wallet_address,
+      strategy_name: body.strategy_name,
+      strategy_type: body.strategy_type,
+      parameters: body.parameters || {},
+      active: body.active !== undefined ? Boolean(body.active) : true
+    };
+
+    try {
+      createStrategy(strategy);
+    } catch (error) {
+      if (error instanceof StrategyParameterError) {
+        return sendError(res, 400, error.message);
+      }
+      throw error;
+    }
+
+    strategy.id = await databaseService.saveStrategy(strategy);
+    await paperTradingService.reloadStrategies();
+    sendSuccess(res, strategy, 201);
+  }));
+
+  router.delete('/:id', asyncHandler(async (req, res) => {
+    const id = parseNumberParam(req.params.id, 'id', { min: 1 });
+    const strategies = await databaseService.getStrategies(false);
+    if (!strategies.some(strategy => strategy.id === id)) {
+      return sendError(res, 404, `Strategy ${req.params.id} not found`);
+    }
+
+    // Nothing would ever close them once the strategy is gone
+    const closedPositions = await paperTradingService.closeStrategyPositions(id, 'Strategy deleted');
+
+    await databaseService.deleteStrategy(id);
+    await paperTradingService.reloadStrategies();
+    sendSuccess(res, { id, closedPositions });
+  }));
+
+  return router;
+}
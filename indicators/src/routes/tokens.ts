@@ -0,0 +1,212 @@
+// src/routes/tokens.ts
+const express = require('express');
+import { TokenConfig } from '../types/shared';
+import { TokenManager } from '../services/TokenManager';
+import { RoutingService } from '../services/RoutingService';
+import { PairDiscoveryService } from '../services/PairDiscoveryService';
+import { sendSuccess, sendError, asyncHandler } from './response';
+
+export function createTokenRoutes(
+  tokenManager: TokenManager,
+  routingService: RoutingService,
+  pairDiscovery: PairDiscoveryService
+): any {
+  const router = express.Router();
+
+  // List tokens, optionally filtered by ?active=true|false
+  router.get('/', asyncHandler(async (req, res) => {
+    let tokens = await tokenManager.getAllTokens();
+
+    if (req.query.active !== undefined) {
+      const active = req.query.active === 'true';
+      tokens = tokens.filter(token => token.active === active);
+    }
+
+    sendSuccess(res, tokens);
+  }));
+
+  router.get('/statistics', asyncHandler(async (req, res) => {
+    sendSuccess(res, await tokenManager.getTokenStatistics());
+  }));
+
+  router.get('/validate', asyncHandler(async (req, res) => {
+    sendSuccess(res, await tokenManager.validateTokens());
+  }));
+
+  // Bulk export/import in the legacy SYMBOL:PAIR:MINT,... format
+  router.get('/export', asyncHandler(async (req, res) => {
+    sendSuccess(res, { tokens: await tokenManager.exportToOldFormat() });
+  }));
+
+  router.post('/import', asyncHandler(async (req, res) => {
+    const tokens = req.body?.tokens;
+    if (typeof tokens !== 'string' || !tokens.trim()) {
+      return sendError(res, 400, 'Body must include "tokens" as SYMBOL:PAIR:MINT entries separated by commas');
+    }
+
+    sendSuccess(res, await tokenManager.importFromOldFormat(tokens));
+  }));
+
+  // Re-resolve routes for active tokens; ?force=true includes fresh ones
+  router.post('/routing/refresh', asyncHandler(async (req, res) => {
+    sendSuccess(res, await routingService.refreshAll(req.query.force === 'true'));
+  }));
+
+  router.get('/:symbol', asyncHandler(async (req, res) => {
+    const token = await tokenManager.getToken(normalizeSymbol(req.params.symbol));
+    if (!token) {
+      return sendError(res, 404, `Token ${req.params.symbol} not found`);
+    }
+
+    sendSuccess(res, token);
+  }));
+
+  router.post('/', asyncHandler(async (req, res) => {
+    const body = req.body || {};
+    if (body.active !== undefined && typeof body.active !== 'boolean') {
+      return sendError(res, 400, '"active" must be true or false');
+    }
+
+    const token: TokenConfig = {
+      symbol: normalizeSymbol(body.symbol),
+      pair: body.pair,
+      mint: body.mint,
+      active: body.active ?? true,
+      notes: body.notes,
+      metadata: body.metadata
+    };
+
+    const validation = tokenManager.validateToken(token);
+    if (!validation.isValid) {
+      return sendError(res, 400, validation.reason);
+    }
+
+    if (await tokenManager.getToken(token.symbol)) {
+      return sendError(res, 409, `Token ${token.symbol} already exists`);
+    }
+
+    await tokenManager.addToken(token);
+    sendSuccess(res, token, 201);
+  }));
+
+  router.patch('/:symbol', asyncHandler(async (req, res) => {
+    const symbol = normalizeSymbol(req.params.symbol);
+    const existing = await tokenManager.getToken(symbol);
+    if (!existing) {
+      return sendError(res, 404, `Token ${symbol} not found`);
+    }
+
+    const { symbol: renamed, tradingCurrency, ...fields } = req.body || {};
+    if (renamed !== undefined && normalizeSymbol(renamed) !== symbol) {
+      return sendError(res, 400, 'Token symbol cannot be changed; delete and re-create the token instead');
+    }
+
+    const unknown = Object.keys(fields).filter(field => !PATCHABLE_FIELDS.includes(field as PatchableField));
+    if (unknown.length > 0) {
+      return sendError(res, 400, `Cannot update ${unknown.join(', ')}; patchable fields are ${[...PATCHABLE_FIELDS, 'tradingCurrency'].join(', ')}`);
+    }
+    if (fields.active !== undefined && typeof fields.active !== 'boolean') {
+      return sendError(res, 400, '"active" must be true or false');
+    }
+
+    const updates: Partial<TokenConfig> = {};
+    for (const field of PATCHABLE_FIELDS) {
+      if (fields[field] !== undefined) (updates as any)[field] = fields[field];
+    }
+
+    // null clears the token's own currency so it follows the default again
+    const metadata = tradingCurrency === undefined
+      ? existing.metadata
+      : { ...existing.metadata, tradingCurrency: tradingCurrency ?? undefined };
+    const validation = tokenManager.validateToken({ ...existing, ...updates, metadata });
+    if (!validation.isValid) {
+      return sendError(res, 400, validation.reason);
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await tokenManager.updateToken(symbol, updates);
+    }
+    if (tradingCurrency !== undefined) {
+      await tokenManager.updateTokenMetadata(symbol, 'tradingCurrency', tradingCurrency ?? undefined);
+    }
+    sendSuccess(res, await tokenManager.getToken(symbol));
+  }));
+
+  router.delete('/:symbol', asyncHandler(async (req, res) => {
+    const symbol = normalizeSymbol(req.params.symbol);
+    if (!(await tokenManager.getToken(symbol))) {
+      return sendError(res, 404, `Token ${symbol} not found`);
+    }
+
+    await tokenManager.removeToken(symbol);
+    pairDiscovery.forget(symbol);
+    sendSuccess(res, { symbol });
+  }));
+
+  router.post('/:symbol/toggle', asyncHandler(async (req, res) => {
+    const symbol = normalizeSymbol(req.params.symbol);
+    if (!(await tokenManager.getToken(symbol))) {
+      return sendError(res, 404, `Token ${symbol} not found`);
+    }
+
+    await tokenManager.toggleToken(symbol);
+    sendSuccess(res, await tokenManager.getToken(symbol));
+  }));
+
+  router.get('/:symbol/routing', asyncHandler(async (req, res) => {
+    const token = await tokenManager.getToken(normalizeSymbol(req.params.symbol));
+    if (!token) {
+      return sendError(res, 404, `Token ${req.params.symbol} not found`);
+    }
+    if (!token.metadata?.routing) {
+      return sendError(res, 404, `No routing resolved for ${token.symbol} yet`);
+    }
+
+    sendSuccess(res, token.metadata.routing);
+  }));
+
+  router.post('/:symbol/routing/refresh', asyncHandler(async (req, res) => {
+    const symbol = normalizeSymbol(req.params.symbol);
+    if (!(await tokenManager.getToken(symbol))) {
+      return sendError(res, 404, `Token ${symbol} not found`);
+    }
+
+    try {
+      sendSuccess(res, await routingService.refresh(symbol));
+    } catch (error) {
+      sendError(res, 502, `Routing lookup failed for ${symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }));
+
+  router.get('/:symbol/pairs', asyncHandler(async (req, res) => {
+    const symbol = normalizeSymbol(req.params.symbol);
+    if (!(await tokenManager.getToken(symbol))) {
+      return sendError(res, 404, `Token ${symbol} not found`);
+    }
+
+    sendSuccess(res, await pairDiscovery.getCandidates(symbol));
+  }));
+
+  router.post('/:symbol/pairs/refresh', asyncHandler(async (req, res) => {
+    const token = await tokenManager.getToken(normalizeSymbol(req.params.symbol));
+    if (!token) {
+      return sendError(res, 404, `Token ${req.params.symbol} not found`);
+    }
+
+    try {
+      sendSuccess(res, await pairDiscovery.discover(token));
+    } catch (error) {
+      sendError(res, 502, `Pair discovery failed for ${token.symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }));
+
+  return router;
+}
+
+// Fields a PATCH may set directly; the trading currency is set through metadata
+const PATCHABLE_FIELDS = ['pair', 'mint', 'active', 'notes'] as const;
+type PatchableField = typeof PATCHABLE_FIELDS[number];
+
+function normalizeSymbol(symbol: any): string {
+  return typeof symbol === 'string' ? symbol.trim().toUpperCase() : '';
+}
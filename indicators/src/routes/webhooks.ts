@@ -0,0 +1,70 @@
+// src/routes/webhooks.ts
+const express = require('express');
+import { randomBytes } from 'crypto';
+import { WebhookSubscription, IDatabaseService } from '../types/shared';
+import { sendSuccess, sendError, asyncHandler, parseNumberParam } from './response';
+
+export function createWebhookRoutes(databaseService: IDatabaseService): any {
+  const router = express.Router();
+
+  // Secrets are only returned when a subscription is created
+  router.get('/', asyncHandler(async (req, res) => {
+    const subscriptions = await databaseService.getWebhookSubscriptions(false);
+    sendSuccess(res, subscriptions.map(({ secret, ...subscription }) => subscription));
+  }));
+
+  router.get('/dead-letters', asyncHandler(async (req, res) => {
+    const limit = parseNumberParam(req.query.limit, 'limit', { min: 1, max: 1000 }) ?? 100;
+    sendSuccess(res, await databaseService.getWebhookDeadLetters(Math.floor(limit)));
+  }));
+
+  router.post('/', asyncHandler(async (req, res) => {
+    const body = req.body || {};
+
+    if (typeof body.url !== 'string' || !/^https?:\/\//i.test(body.url)) {
+      return sendError(res, 400, 'Body must include an http(s) "url"');
+    }
+
+    const directions = body.directions ?? ['BUY', 'SELL'];
+    if (!Array.isArray(directions) || directions.length === 0 ||
+        !directions.every((d: any) => d === 'BUY' || d === 'SELL')) {
+      return sendError(res, 400, '"directions" must be a non-empty array of BUY and/or SELL');
+    }
+
+    const symbols = body.symbols ?? [];
+    if (!Array.isArray(symbols) || !symbols.every((s: any) => typeof s === 'string')) {
+      return sendError(res, 400, '"symbols" must be an array of token symbols');
+    }
+
+    const minConfidence = Number(body.min_confidence ?? 0);
+    if (isNaN(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+      return sendError(res, 400, '"min_confidence" must be between 0 and 1');
+    }
+
+    const subscription: WebhookSubscription = {
+      url: body.url,
+      secret: typeof body.secret === 'string' && body.secret ? body.secret : randomBytes(32).toString('hex'),
+      symbols: symbols.map((s: string) => s.trim().toUpperCase()),
+      directions,
+      min_confidence: minConfidence,
+      stable_only: Boolean(body.stable_only),
+      active: body.active !== undefined ? Boolean(body.active) : true
+    };
+
+    subscription.id = await databaseService.saveWebhookSubscription(subscription);
+    sendSuccess(res, subscription, 201);
+  }));
+
+  router.delete('/:id', asyncHandler(async (req, res) => {
+    const id = parseNumberParam(req.params.id, 'id', { min: 1 });
+    const subscriptions = await databaseService.getWebhookSubscriptions(false);
+    if (!subscriptions.some(subscription => subscription.id === id)) {
+      return sendError(res, 404, `Webhook subscription ${req.params.id} not found`);
+    }
+
+    await databaseService.deleteWebhookSubscription(id);
+    sendSuccess(res, { id });
+  }));
+
+  return router;
+}
@@ -0,0 +1,260 @@
+// src/services/BacktestService.ts
+import { randomBytes } from 'crypto';
+import {
+  BacktestSummary,
+  IndicatorData,
+  PricePoint,
+  Trade,
+  TradingStrategy,
+  IDatabaseService
+} from '../types/shared';
+import { SignalGenerator } from './SignalGenerator';
+import { TechnicalIndicators } from './TechnicalIndicators';
+import { PriceSeries } from './PriceSeries';
+import { createStrategy, openTrade, markTrade, closeTrade } from '../strategies';
+import { defaultTradingCurrency, normalizeCurrency, tradingCurrencyFor } from '../sources';
+
+export interface BacktestRequest {
+  symbol: string;
+  strategy: Pick<TradingStrategy, 'strategy_type' | 'parameters'>;
+  hours?: number;
+  from?: number;            // unix seconds
+  to?: number;              // unix seconds
+  prices?: PricePoint[];    // imported series instead of stored history
+  persist?: boolean;        // write trades to the database (default true)
+}
+
+export interface BacktestResult {
+  summary: BacktestSummary;
+  trades: Trade[];
+}
+
+export class BacktestService {
+  // Points replayed between yields to the event loop, so a long replay
+  // doesn't stall the live update cycle or other requests
+  private static readonly YIELD_EVERY = 250;
+
+  constructor(
+    private databaseService: IDatabaseService,
+    private signalGenerator: SignalGenerator
+  ) {}
+
+  /**
+   * Replay a price series point by point through the same indicator and
+   * signal pipeline as the live service, simulating one position at a time.
+   * Windows are measured on each point's timestamp, as they are live.
+   */
+  async run(request: BacktestRequest): Promise<BacktestResult> {
+    const symbol = request.symbol.toUpperCase();
+    const backtestId = `bt_${Date.now()}_${randomBytes(3).toString('hex')}`;
+    const points = (request.prices ?? await this.loadPrices(symbol, request))
+      .filter(point => point.price > 0)
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+    if (points.length === 0) {
+      throw new Error(`No price data available to backtest ${symbol}`);
+    }
+
+    console.log(`🧪 Backtest ${backtestId}: replaying ${points.length} points for ${symbol} (${request.strategy.strategy_type})`);
+
+    // Fresh generator so backtests never disturb live stability tracking
+    const generator = new SignalGenerator({ ...this.signalGenerator.getConfig(), LOG_PATTERNS: false });
+    const strategy = createStrategy(request.strategy);
+    const history = new PriceSeries();
+    const trades: Trade[] = [];
+    let position: Trade | null = null;
+
+    for (const [i, point] of points.entries()) {
+      if (i > 0 && i % BacktestService.YIELD_EVERY === 0) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      history.add(point.timestamp, point.price);
+
+      const indicators = this.buildIndicators(symbol, point, history);
+      const signal = history.minutes(point.timestamp) >= 60
+        ? generator.generateSignal(symbol, history, point.timestamp * 1000)
+        : null;
+
+      if (position) {
+        markTrade(position, point.price);
+      }
+
+      const decision = strategy.evaluate({ signal, indicators, position: position ?? undefined });
+
+      if (position && decision.action === 'EXIT') {
+        trades.push(closeTrade(position, point.price, point.timestamp, decision.reason));
+        position = null;
+      } else if (!position && decision.action === 'ENTER') {
+        position = openTrade(strategy, symbol, point.price, point.timestamp, signal, {
+          is_backtest: 1,
+          backtest_id: backtestId
+        });
+      }
+    }
+
+    if (position) {
+      const last = points[points.length - 1];
+      trades.push(closeTrade(position, last.price, last.timestamp, 'End of backtest data'));
+    }
+
+    if (request.persist !== false) {
+      for (const trade of trades) {
+        trade.id = await this.databaseService.saveTrade(trade);
+      }
+    }
+
+    const summary = BacktestService.summarize(trades, {
+      backtest_id: backtestId,
+      symbol,
+      strategy_type: request.strategy.strategy_type,
+      points_replayed: points.length,
+      from: points[0].timestamp,
+      to: points[points.length - 1].timestamp
+    });
+
+    console.log(`🧪 Backtest ${backtestId}: ${summary.trade_count} trades, PnL ${summary.total_pnl_pct.toFixed(2)}%, win rate ${(summary.win_rate * 100).toFixed(0)}%`);
+
+    return { summary, trades };
+  }
+
+  async getBacktest(backtestId: string): Promise<BacktestResult | null> {
+    const trades = await this.databaseService.getTrades({ backtestId });
+    if (trades.length === 0) {
+      return null;
+    }
+
+    const summary = BacktestService.summarize(trades, {
+      backtest_id: backtestId,
+      symbol: trades[0].symbol,
+      strategy_type: trades[0].strategy_type,
+      points_replayed: 0,
+      from: trades[0].buy_timestamp,
+      to: trades[trades.length - 1].sell_timestamp ?? null
+    });
+
+    return { summary, trades };
+  }
+
+  /**
+   * Aggregate closed trades into PnL, win rate, drawdown and hold statistics
+   */
+  static summarize(
+    trades: Trade[],
+    meta: Omit<BacktestSummary, 'trade_count' | 'win_rate' | 'total_pnl_pct' | 'max_drawdown_pct' | 'avg_hold_seconds'>
+  ): BacktestSummary {
+    const closed = trades.filter(trade => trade.pnl_pct !== undefined);
+    const wins = closed.filter(trade => trade.pnl_pct! > 0).length;
+
+    // Compound trade returns into an equity curve to measure drawdown
+    let equity = 1;
+    let peakEquity = 1;
+    let maxDrawdown = 0;
+    for (const trade of closed) {
+      equity *= 1 + trade.pnl_pct! / 100;
+      peakEquity = Math.max(peakEquity, equity);
+      maxDrawdown = Math.max(maxDrawdown, ((peakEquity - equity) / peakEquity) * 100);
+    }
+
+    const totalHold = closed.reduce((sum, trade) => sum + (trade.duration_seconds || 0), 0);
+
+    return {
+      ...meta,
+      trade_count: closed.length,
+      win_rate: closed.length > 0 ? Math.round((wins / closed.length) * 1000) / 1000 : 0,
+      total_pnl_pct: Math.round((equity - 1) * 10000) / 100,
+      max_drawdown_pct: Math.round(maxDrawdown * 100) / 100,
+      avg_hold_seconds: closed.length > 0 ? Math.round(totalHold / closed.length) : 0
+    };
+  }
+
+  /**
+   * Parse an imported price file: a JSON array of { timestamp, price } or
+   * CSV lines of "timestamp,price[,volume,marketCap]" (header optional).
+   * Timestamps may be unix seconds, unix milliseconds or ISO strings.
+   */
+  static parsePriceFile(content: string): PricePoint[] {
+    const trimmed = content.trim();
+    if (!trimmed) return [];
+
+    const rows: any[] = trimmed.startsWith('[')
+      ? JSON.parse(trimmed)
+      : trimmed.split(/\r?\n/).map(line => {
+          const [timestamp, price, volume, marketCap] = line.split(',').map(cell => cell.trim());
+          return { timestamp, price, volume, marketCap };
+        });
+
+    return rows
+      .filter(row => row !== null && typeof row === 'object')
+      .map(row => ({
+        timestamp: BacktestService.parseTimestamp(row.timestamp),
+        price: Number(row.price),
+        volume: row.volume !== undefined && row.volume !== '' ? Number(row.volume) : undefined,
+        marketCap: row.marketCap !== undefined && row.marketCap !== '' ? Number(row.marketCap) : undefined
+      }))
+      .filter(point => !isNaN(point.timestamp) && !isNaN(point.price));
+  }
+
+  private static parseTimestamp(value: any): number {
+    if (typeof value === 'number' || /^\d+(\.\d+)?$/.test(String(value))) {
+      const numeric = Number(value);
+      return numeric > 1e12 ? Math.floor(numeric / 1000) : Math.floor(numeric);
+    }
+    return Math.floor(new Date(value).getTime() / 1000);
+  }
+
+  /**
+   * Stored history priced in the token's current trading currency, so a
+   * change of currency or a fallback pool never splices into the series
+   */
+  private async loadPrices(symbol: string, request: BacktestRequest): Promise<PricePoint[]> {
+    const [rows, tokens] = await Promise.all([
+      this.databaseService.getIndicatorHistory(symbol, request.hours ?? 24, {
+        from: request.from,
+        to: request.to
+      }),
+      this.databaseService.getTokens(false)
+    ]);
+
+    // A removed token keeps the currency of its newest row
+    const token = tokens.find(candidate => candidate.symbol === symbol);
+    const newest = rows.reduce<IndicatorData | undefined>(
+      (latest, row) => !latest || row.timestamp > latest.timestamp ? row : latest,
+      undefined
+    );
+    const currency = token
+      ? tradingCurrencyFor(token, defaultTradingCurrency())
+      : normalizeCurrency(newest?.trading_currency);
+
+    return rows
+      .filter(row => !row.currency_mismatch && normalizeCurrency(row.trading_currency) === currency)
+      .map(row => ({
+      timestamp: Math.floor(row.timestamp.getTime() / 1000),
+      price: row.price,
+      volume: row.volume_24h,
+      marketCap: row.market_cap
+    }));
+  }
+
+  private buildIndicators(symbol: string, point: PricePoint, history: PriceSeries): IndicatorData {
+    const indicators = TechnicalIndicators.calculateAll(point.price, history, point.timestamp);
+    const volume = point.volume || 0;
+    const marketCap = point.marketCap || 0;
+
+    return {
+      symbol,
+      price: point.price,
+      native_price: point.price,
+      native_currency: 'SOL',
+      trading_currency: 'SOL',
+      currency_mismatch: 0,
+      ...indicators,
+      volume_24h: volume,
+      market_cap: marketCap,
+      volume_to_cap_ratio: marketCap > 0 ? volume / marketCap : 0,
+      decimals: 6,
+      analysis_mode: 'backtest',
+      timestamp: new Date(point.timestamp * 1000)
+    };
+  }
+}
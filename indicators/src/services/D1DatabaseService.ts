@@ -0,0 +1,96 @@
+// src/services/D1DatabaseService.ts
+import axios from 'axios';
+import { DatabaseService, DatabaseUnavailableError, Statement } from './DatabaseService';
+import { rateLimiter } from './RateLimiter';
+import { CircuitOpenError, Resilience, resilience } from './Resilience';
+
+/**
+ * Cloudflare D1 over its HTTP query API
+ */
+export class D1DatabaseService extends DatabaseService {
+  private dbUrl: string;
+  private apiToken: string;
+
+  constructor(
+    dbUrl: string = process.env.CLOUDFLARE_D1_DATABASE_URL || '',
+    apiToken: string = process.env.CLOUDFLARE_D1_TOKEN || ''
+  ) {
+    super();
+    this.dbUrl = dbUrl;
+    this.apiToken = apiToken;
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.dbUrl || !this.apiToken) {
+      throw new Error('Missing Cloudflare D1 database configuration');
+    }
+
+    await super.initialize();
+  }
+
+  protected async executeQuery(sql: string, params: any[] = []): Promise<any> {
+    console.log(`[DB] Executing query: ${sql.substring(0, 100)}...`);
+    return this.post({ sql, params });
+  }
+
+  protected async executeBatch(statements: Statement[]): Promise<any[]> {
+    if (statements.length === 0) return [];
+
+    console.log(`[DB] Executing batch of ${statements.length} statements`);
+    return this.post({ batch: statements });
+  }
+
+  async close(): Promise<void> {
+    // Cloudflare D1 is HTTP-based, no persistent connections to close
+    console.log('✅ Database service closed');
+  }
+
+  private async post(body: { sql: string; params: any[] } | { batch: Statement[] }): Promise<any> {
+    try {
+      const response = await resilience().execute(this.dbUrl, timeout => rateLimiter('d1').schedule(() => axios.post(
+        this.dbUrl, // This should already include /query endpoint
+        body,
+        {
+          headers: {
+            'Authorization': `Bearer ${this.apiToken}`,
+            'Content-Type': 'application/json'
+          },
+          timeout
+        }
+      )));
+
+      console.log(`[DB] Query response status: ${response.status}`);
+
+      if (response.data.success === false) {
+        throw new Error(`D1 API Error: ${JSON.stringify(response.data.errors)}`);
+      }
+
+      return response.data.result;
+    } catch (error) {
+      if (D1DatabaseService.isUnavailable(error)) {
+        throw new DatabaseUnavailableError(`D1 unreachable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      if (axios.isAxiosError(error)) {
+        console.error(`[DB] Axios error:`, {
+          status: error.response?.status,
+          statusText: error.response?.statusText,
+          data: error.response?.data,
+          url: this.dbUrl
+        });
+        throw new Error(`Database query failed: ${error.response?.status} ${error.response?.statusText} - ${JSON.stringify(error.response?.data)}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Failures that say nothing about the statement itself: the request never
+   * got a usable answer after retries, the breaker is open, or D1 kept
+   * answering 429
+   */
+  private static isUnavailable(error: unknown): boolean {
+    if (error instanceof CircuitOpenError) return true;
+    if (axios.isAxiosError(error) && error.response?.status === 429) return true;
+    return Resilience.isTransient(error);
+  }
+}
@@ -1,32 +1,79 @@
 // src/services/DatabaseService.ts
-import { TokenConfig } from '../types/shared';
-import axios from 'axios';
-
-interface PriceData {
-  symbol: string;
-  price: number;
-  volume: number;
-  marketCap: number;
-  timestamp: Date;
+import {
+  TokenConfig,
+  SignalTransition,
+  IndicatorData,
+  SignalData,
+  HistoryRange,
+  WebhookSubscription,
+  WebhookDeadLetter,
+  Trade,
+  TradingStrategy,
+  PairCandidate,
+  PriceData,
+  BulkWriteResult,
+  IDatabaseService,
+  CandleInterval,
+  RollupProgress
+} from '../types/shared';
+import { MIGRATIONS, Migration } from '../migrations';
+
+// One parameterised statement, run singly or in a batch
+export interface Statement {
+  sql: string;
+  params: any[];
 }
 
-export class DatabaseService {
-  private dbUrl: string;
-  private apiToken: string;
+// Candle tables, the interval each is rolled from (raw rows when absent),
+// and how much source time one rollup request covers
+const CANDLE_INTERVALS: Record<CandleInterval, {
+  table: string;
+  seconds: number;
+  source?: CandleInterval;
+  chunkSeconds: number;
+}> = {
+  '5m': { table: 'candles_5m', seconds: 5 * 60, chunkSeconds: 24 * 60 * 60 },
+  '1h': { table: 'candles_1h', seconds: 60 * 60, source: '5m', chunkSeconds: 7 * 24 * 60 * 60 },
+  '1d': { table: 'candles_1d', seconds: 24 * 60 * 60, source: '1h', chunkSeconds: 90 * 24 * 60 * 60 }
+};
 
-  constructor() {
-    this.dbUrl = process.env.CLOUDFLARE_D1_DATABASE_URL || '';
-    this.apiToken = process.env.CLOUDFLARE_D1_TOKEN || '';
+/**
+ * The store could not be reached (network failure, outage, open circuit or
+ * exhausted rate limit), as opposed to rejecting a statement. Writes that
+ * fail this way can be retried later unchanged.
+ */
+export class DatabaseUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DatabaseUnavailableError';
   }
+}
 
-  async initialize(): Promise<void> {
-    if (!this.dbUrl || !this.apiToken) {
-      throw new Error('Missing Cloudflare D1 database configuration');
-    }
+/**
+ * Queries shared by every storage backend. All backends speak SQLite's
+ * dialect and return results in D1's shape (`[{ results: rows }]`), so a
+ * backend only supplies how statements are executed.
+ */
+export abstract class DatabaseService implements IDatabaseService {
+  // Rows per batch request
+  private static readonly BATCH_SIZE = 50;
+
+  /**
+   * Run one statement; returns D1-shaped results
+   */
+  protected abstract executeQuery(sql: string, params?: any[]): Promise<any>;
 
+  /**
+   * Run several statements as a single transaction: either every statement
+   * applies or none do. Returns one result per statement.
+   */
+  protected abstract executeBatch(statements: Statement[]): Promise<any[]>;
+
+  abstract close(): Promise<void>;
+
+  async initialize(): Promise<void> {
     try {
-      // Test database connection with a simple query
-      await this.executeQuery('SELECT COUNT(*) as count FROM tokens');
+      await this.migrate();
       console.log('✅ Database initialized successfully');
     } catch (error) {
       console.error('❌ Database initialization failed:', error);
@@ -34,52 +81,63 @@ export class DatabaseService {
     }
   }
 
-  private async executeQuery(sql: string, params: any[] = []): Promise<any> {
-    try {
-      console.log(`[DB] Executing query: ${sql.substring(0, 100)}...`);
-      
-      const response = await axios.post(
-        this.dbUrl, // This should already include /query endpoint
-        {
-          sql,
-          params
-        },
-        {
-          headers: {
-            'Authorization': `Bearer ${this.apiToken}`,
-            'Content-Type': 'application/json'
-          },
-          timeout: 15000
-        }
-      );
+  /**
+   * Apply pending migrations in version order. Each migration and its
+   * schema_migrations row are written in one batch, so a failed migration
+   * leaves nothing behind and is retried on the next start.
+   */
+  protected async migrate(migrations: Migration[] = MIGRATIONS): Promise<number[]> {
+    await this.executeQuery(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        version INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at INTEGER NOT NULL
+      )
+    `);
 
-      console.log(`[DB] Query response status: ${response.status}`);
-      
-      if (response.data.success === false) {
-        throw new Error(`D1 API Error: ${JSON.stringify(response.data.errors)}`);
-      }
+    const result = await this.executeQuery('SELECT version FROM schema_migrations');
+    const applied = new Set<number>((result?.[0]?.results || []).map((row: any) => row.version));
+    const pending = migrations
+      .filter(migration => !applied.has(migration.version))
+      .sort((a, b) => a.version - b.version);
 
-      return response.data.result;
-    } catch (error) {
-      if (axios.isAxiosError(error)) {
-        console.error(`[DB] Axios error:`, {
-          status: error.response?.status,
-          statusText: error.response?.statusText,
-          data: error.response?.data,
-          url: this.dbUrl
-        });
-        throw new Error(`Database query failed: ${error.response?.status} ${error.response?.statusText} - ${JSON.stringify(error.response?.data)}`);
+    for (const migration of pending) {
+      const statements: Statement[] = [];
+
+      for (const step of migration.steps) {
+        if (typeof step === 'string') {
+          statements.push({ sql: step, params: [] });
+        } else if (!(await this.hasColumn(step.table, step.column))) {
+          statements.push({ sql: `ALTER TABLE ${step.table} ADD COLUMN ${step.column} ${step.definition}`, params: [] });
+        }
       }
-      throw error;
+
+      statements.push({
+        sql: 'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+        params: [migration.version, migration.name, Math.floor(Date.now() / 1000)]
+      });
+
+      await this.executeBatch(statements);
+      console.log(`🗄️  Applied migration ${migration.version} (${migration.name})`);
     }
+
+    return pending.map(migration => migration.version);
+  }
+
+  private async hasColumn(table: string, column: string): Promise<boolean> {
+    const result = await this.executeQuery(`PRAGMA table_info(${table})`);
+    const columns: any[] = result?.[0]?.results || [];
+    return columns.some(info => info.name === column);
   }
 
-  async getTokens(): Promise<TokenConfig[]> {
+  async getTokens(activeOnly: boolean = true): Promise<TokenConfig[]> {
     try {
-      const result = await this.executeQuery('SELECT * FROM tokens WHERE active = 1');
+      const result = await this.executeQuery(
+        activeOnly ? 'SELECT * FROM tokens WHERE active = 1' : 'SELECT * FROM tokens'
+      );
       
       if (!result || !result[0] || !result[0].results) {
-        console.log('[DB] No active tokens found in database');
+        console.log(`[DB] No ${activeOnly ? 'active ' : ''}tokens found in database`);
         return [];
       }
 
@@ -119,13 +177,17 @@ export class DatabaseService {
   }
 
   async deleteToken(symbol: string): Promise<void> {
-    await this.executeQuery('DELETE FROM tokens WHERE symbol = ?', [symbol]);
+    // A token re-created under the same symbol may have another mint, so its pools go too
+    await this.executeBatch([
+      { sql: 'DELETE FROM tokens WHERE symbol = ?', params: [symbol] },
+      { sql: 'DELETE FROM pair_candidates WHERE symbol = ?', params: [symbol] }
+    ]);
   }
 
-  async savePriceData(data: PriceData): Promise<void> {
+  async savePriceData(data: Omit<PriceData, 'quoteToken'>): Promise<void> {
     // Save to indicators table with current timestamp
     const sql = `
-      INSERT INTO indicators (symbol, price, native_price, volume_24h, market_cap, timestamp)
+      INSERT OR IGNORE INTO indicators (symbol, price, native_price, volume_24h, market_cap, timestamp)
       VALUES (?, ?, ?, ?, ?, ?)
     `;
 
@@ -163,40 +225,24 @@ export class DatabaseService {
     }
   }
 
-  async saveFullIndicators(indicators: {
-    symbol: string;
-    price: number;
-    native_price: number;
-    native_currency: string;
-    trading_currency: string;
-    currency_mismatch: number;
-    rsi_1m: number;
-    rsi_5m: number;
-    rsi_15m: number;
-    ema_1m: number;
-    ema_5m: number;
-    ema_15m: number;
-    ema_trend: string;
-    volume_24h: number;
-    market_cap: number;
-    volume_to_cap_ratio: number;
-    trend_score: number;
-    hourly_change_pct: number;
-    drawdown_from_peak: number;
-    volatility_pct: number;
-    decimals: number;
-    analysis_mode: string;
-    timestamp: Date;
-  }): Promise<void> {
+  async saveFullIndicators(indicators: IndicatorData): Promise<void> {
+    await this.executeBatch([
+      this.indicatorStatement(indicators),
+      ...this.rollupRewindStatements(Math.floor(indicators.timestamp.getTime() / 1000))
+    ]);
+  }
+
+  private indicatorStatement(indicators: IndicatorData): Statement {
+    // (symbol, timestamp) is unique, so a replayed row is ignored
     const sql = `
-      INSERT INTO indicators (
+      INSERT OR IGNORE INTO indicators (
         symbol, price, native_price, native_currency, trading_currency, currency_mismatch,
         rsi_1m, rsi_5m, rsi_15m, ema_1m, ema_5m, ema_15m, ema_trend,
         volume_24h, market_cap, volume_to_cap_ratio, trend_score,
         hourly_change_pct, drawdown_from_peak, volatility_pct,
-        decimals, analysis_mode, timestamp
+        decimals, analysis_mode, price_source, price_usd, timestamp
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
 
     const params = [
@@ -222,57 +268,167 @@ export class DatabaseService {
       indicators.volatility_pct,
       indicators.decimals,
       indicators.analysis_mode,
+      indicators.price_source || null,
+      indicators.price_usd ?? null,
       Math.floor(indicators.timestamp.getTime() / 1000)
     ];
 
-    await this.executeQuery(sql, params);
+    return { sql, params };
   }
 
-  async saveSignal(signal: {
-    symbol: string;
-    direction: string;
-    confidence: number;
-    reason: string;
-    vertex_age?: number;
-    trend_strength?: string;
-    pattern?: string;
-    magnitude?: number;
-    stable: number;
-    first_detected: number;
-    last_evaluated: number;
-    expires_at: number;
-  }): Promise<void> {
-    const sql = `
-      INSERT INTO signals (
-        symbol, direction, confidence, reason, vertex_age, trend_strength,
-        pattern, magnitude, stable, first_detected, last_evaluated, expires_at
-      )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-    `;
+  /**
+   * Save a signal evaluation. A continuing direction updates the current
+   * signal in place (keeping first_detected); a new direction closes the
+   * current signal, starts a new one and records a transition.
+   * Returns the transition, or null when the signal simply continued.
+   */
+  async saveSignal(signal: SignalData): Promise<SignalTransition | null> {
+    const current = await this.getCurrentSignal(signal.symbol);
+    const { statements, transition } = this.signalStatements(signal, current);
 
-    const params = [
-      signal.symbol,
-      signal.direction,
-      signal.confidence,
-      signal.reason,
-      signal.vertex_age || null,
-      signal.trend_strength || null,
-      signal.pattern || null,
-      signal.magnitude || null,
-      signal.stable,
-      signal.first_detected,
-      signal.last_evaluated,
-      signal.expires_at
-    ];
+    await this.executeBatch(statements);
+    return transition;
+  }
 
-    await this.executeQuery(sql, params);
+  /**
+   * Statements that record a signal evaluation against the symbol's current
+   * signal row, and the transition they represent (null for a continuation)
+   */
+  private signalStatements(signal: SignalData, current: any | null): {
+    statements: Statement[];
+    transition: SignalTransition | null;
+  } {
+    // An evaluation older than the stored one is a replay that already applied
+    if (current && current.last_evaluated > signal.last_evaluated) {
+      return { statements: [], transition: null };
+    }
+
+    const isLive = current && current.expires_at >= signal.last_evaluated;
+
+    if (isLive && current.direction === signal.direction) {
+      return {
+        statements: [{
+          sql: `
+            UPDATE signals SET
+              confidence = ?, reason = ?, vertex_age = ?, trend_strength = ?,
+              pattern = ?, magnitude = ?, stable = ?, last_evaluated = ?, expires_at = ?
+            WHERE rowid = ?
+          `,
+          params: [
+            signal.confidence,
+            signal.reason,
+            signal.vertex_age || null,
+            signal.trend_strength || null,
+            signal.pattern || null,
+            signal.magnitude || null,
+            signal.stable,
+            signal.last_evaluated,
+            signal.expires_at,
+            current.signal_rowid
+          ]
+        }],
+        transition: null
+      };
+    }
+
+    const statements: Statement[] = [];
+
+    // Close the outgoing signal so only one is active per symbol
+    if (isLive) {
+      statements.push({
+        sql: `UPDATE signals SET expires_at = ? WHERE rowid = ?`,
+        params: [signal.last_evaluated, current.signal_rowid]
+      });
+    }
+
+    // (symbol, last_evaluated) and (symbol, transitioned_at) are unique, so a
+    // resent batch is ignored
+    statements.push({
+      sql: `
+        INSERT OR IGNORE INTO signals (
+          symbol, direction, confidence, reason, vertex_age, trend_strength,
+          pattern, magnitude, stable, first_detected, last_evaluated, expires_at
+        )
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `,
+      params: [
+        signal.symbol,
+        signal.direction,
+        signal.confidence,
+        signal.reason,
+        signal.vertex_age || null,
+        signal.trend_strength || null,
+        signal.pattern || null,
+        signal.magnitude || null,
+        signal.stable,
+        signal.first_detected,
+        signal.last_evaluated,
+        signal.expires_at
+      ]
+    });
+
+    const transition: SignalTransition = {
+      symbol: signal.symbol,
+      from_direction: isLive ? current.direction : null,
+      to_direction: signal.direction,
+      confidence: signal.confidence,
+      reason: signal.reason,
+      transitioned_at: signal.last_evaluated
+    };
+
+    statements.push({
+      sql: `INSERT OR IGNORE INTO signal_transitions (symbol, from_direction, to_direction, confidence, reason, transitioned_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      params: [
+        transition.symbol,
+        transition.from_direction,
+        transition.to_direction,
+        transition.confidence,
+        transition.reason,
+        transition.transitioned_at
+      ]
+    });
+
+    return { statements, transition };
+  }
+
+  private async getCurrentSignal(symbol: string): Promise<any | null> {
+    const result = await this.executeQuery(
+      `SELECT rowid AS signal_rowid, * FROM signals WHERE symbol = ? ORDER BY last_evaluated DESC LIMIT 1`,
+      [symbol]
+    );
+
+    return result?.[0]?.results?.[0] || null;
   }
 
-  async getActiveSignals(symbol?: string): Promise<any[]> {
+  /**
+   * Most recently evaluated signal row per symbol, in one query
+   */
+  private async getCurrentSignals(symbols: string[]): Promise<Map<string, any>> {
+    const current = new Map<string, any>();
+    if (symbols.length === 0) return current;
+
+    const result = await this.executeQuery(`
+      SELECT rowid AS signal_rowid, * FROM signals s
+      WHERE symbol IN (${symbols.map(() => '?').join(', ')})
+        AND last_evaluated = (SELECT MAX(last_evaluated) FROM signals WHERE symbol = s.symbol)
+    `, symbols);
+
+    for (const row of result?.[0]?.results || []) {
+      if (!current.has(row.symbol)) current.set(row.symbol, row);
+    }
+    return current;
+  }
+
+  async getActiveSignals(symbol?: string): Promise<SignalData[]> {
     try {
+      // Only the most recently evaluated signal per symbol is current
       let sql = `
         SELECT * FROM signals 
         WHERE expires_at > strftime('%s', 'now')
+        AND last_evaluated = (
+          SELECT MAX(s2.last_evaluated) FROM signals s2 WHERE s2.symbol = signals.symbol
+        )
       `;
       const params: any[] = [];
 
@@ -289,14 +445,14 @@ export class DatabaseService {
         return [];
       }
 
-      return result[0].results;
+      return result[0].results.map((row: any) => this.mapSignalRow(row));
     } catch (error) {
       console.error('Failed to get active signals:', error);
       return [];
     }
   }
 
-  async getLatestIndicators(symbol?: string): Promise<any[]> {
+  async getLatestIndicators(symbol?: string): Promise<IndicatorData[]> {
     try {
       let sql = `
         SELECT * FROM latest_indicators
@@ -316,7 +472,7 @@ export class DatabaseService {
         return [];
       }
 
-      return result[0].results;
+      return result[0].results.map((row: any) => this.mapIndicatorRow(row));
     } catch (error) {
       console.error('Failed to get latest indicators:', error);
       return [];
@@ -351,127 +507,706 @@ export class DatabaseService {
     }
   }
 
+  /**
+   * Delete raw indicator rows older than the retention period. Once candle
+   * rollups have started, rows not yet rolled into 5m candles are kept.
+   */
   async cleanupOldIndicators(daysToKeep: number = 30): Promise<void> {
-    const cutoffTime = Math.floor(Date.now() / 1000) - (daysToKeep * 24 * 60 * 60);
-    
-    const sql = `DELETE FROM indicators WHERE timestamp < ?`;
-    
     try {
-      await this.executeQuery(sql, [cutoffTime]);
+      const cutoffTime = await this.retentionCutoff(daysToKeep, '5m');
+      await this.executeBatch([
+        { sql: `DELETE FROM indicators WHERE timestamp < ?`, params: [cutoffTime] },
+        this.prunedStatement('5m', cutoffTime)
+      ]);
       console.log(`🧹 Cleaned up old indicators (kept last ${daysToKeep} days)`);
     } catch (error) {
       console.error(`Failed to cleanup old indicators:`, error);
     }
   }
 
-  async cleanupExpiredSignals(): Promise<void> {
-    const now = Math.floor(Date.now() / 1000);
+  /**
+   * Delete signals that expired more than `keepDays` ago
+   */
+  async cleanupExpiredSignals(keepDays: number = 0): Promise<void> {
+    const cutoffTime = Math.floor(Date.now() / 1000) - (keepDays * 24 * 60 * 60);
     const sql = `DELETE FROM signals WHERE expires_at < ?`;
     
     try {
-      await this.executeQuery(sql, [now]);
+      await this.executeQuery(sql, [cutoffTime]);
       console.log(`🧹 Cleaned up expired signals`);
     } catch (error) {
       console.error(`Failed to cleanup expired signals:`, error);
     }
   }
 
-  async getIndicatorHistory(symbol: string, hours: number = 24): Promise<any[]> {
+  /**
+   * Roll the next chunk of closed buckets before `until` into an interval's
+   * candle table. 5m candles are built from raw indicator rows, 1h from 5m
+   * and 1d from 1h. Each bucket is recomputed in full from its source rows
+   * and the progress marker advances in the same batch, so a repeated or
+   * interrupted run never double-counts. Writing an indicator row behind a
+   * marker pulls it back, so late rows are rolled on the next run, unless
+   * the bucket's source rows have already been pruned. Call
+   * until rolledUntil reaches `until`.
+   */
+  async rollupCandles(interval: CandleInterval, until: number): Promise<RollupProgress> {
+    const spec = CANDLE_INTERVALS[interval];
+    const source = spec.source ? CANDLE_INTERVALS[spec.source].table : 'indicators';
+    const timeColumn = spec.source ? 'bucket_start' : 'timestamp';
+    const end = Math.floor(until / spec.seconds) * spec.seconds;
+
+    // Resume from the marker; otherwise, and across gaps, from the next source row
+    const state = await this.executeQuery('SELECT rolled_until FROM rollup_state WHERE interval = ?', [interval]);
+    const stored: number | null = state?.[0]?.results?.[0]?.rolled_until ?? null;
+    let from = stored;
+
+    const next = await this.executeQuery(
+      `SELECT MIN(${timeColumn}) AS next FROM ${source} WHERE ${timeColumn} >= ?`,
+      [from ?? 0]
+    );
+    const nextRow: number | null = next?.[0]?.results?.[0]?.next ?? null;
+
+    if (nextRow === null || nextRow >= end) {
+      // Nothing to roll yet; still move the marker past the empty stretch
+      if (from !== null && end > from) {
+        const { sql, params } = this.rollupAdvanceStatement(interval, stored, end);
+        await this.executeQuery(sql, params);
+        from = end;
+      }
+      return { candles: 0, rolledUntil: from };
+    }
+
+    from = Math.floor(nextRow / spec.seconds) * spec.seconds;
+    const chunkEnd = Math.min(end, from + spec.chunkSeconds);
+
+    const rows = spec.source
+      ? `SELECT symbol, bucket_start AS t, open, high, low, close, volume_24h, samples
+         FROM ${source} WHERE bucket_start >= ? AND bucket_start < ?`
+      : `SELECT symbol, timestamp AS t, price AS open, price AS high, price AS low, price AS close, volume_24h, 1 AS samples
+         FROM indicators WHERE timestamp >= ? AND timestamp < ? AND COALESCE(currency_mismatch, 0) = 0`;
+
+    const results = await this.executeBatch([
+      {
+        sql: `
+          INSERT OR REPLACE INTO ${spec.table} (symbol, bucket_start, open, high, low, close, volume_24h, samples)
+          SELECT DISTINCT symbol, bucket,
+            FIRST_VALUE(open) OVER w,
+            MAX(high) OVER w,
+            MIN(low) OVER w,
+            LAST_VALUE(close) OVER w,
+            LAST_VALUE(volume_24h) OVER w,
+            SUM(samples) OVER w
+          FROM (SELECT *, (t / ${spec.seconds}) * ${spec.seconds} AS bucket FROM (${rows}))
+          WINDOW w AS (PARTITION BY symbol, bucket ORDER BY t ROWS BETWEEN UNBOUNDED PRECEDING AND UNBOUNDED FOLLOWING)
+        `,
+        params: [from, chunkEnd]
+      },
+      this.rollupAdvanceStatement(interval, stored, chunkEnd)
+    ]);
+
+    return { candles: results[0]?.meta?.changes ?? 0, rolledUntil: chunkEnd };
+  }
+
+  /**
+   * Move an interval's marker to `to`, unless it has changed since it was
+   * read as `stored` (a late row pulled it back while the chunk was rolled)
+   */
+  private rollupAdvanceStatement(interval: CandleInterval, stored: number | null, to: number): Statement {
+    return {
+      sql: `
+        INSERT INTO rollup_state (interval, rolled_until, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT (interval) DO UPDATE SET rolled_until = excluded.rolled_until, updated_at = excluded.updated_at
+        WHERE rollup_state.rolled_until = ?
+      `,
+      params: [interval, to, Math.floor(Date.now() / 1000), stored]
+    };
+  }
+
+  /**
+   * Pull every marker past `timestamp` back to the start of its bucket, so a
+   * row written there (e.g. a write buffer replay) is rolled up again at
+   * every interval. A bucket whose source rows were partly pruned is left
+   * alone: recomputing it would replace a complete candle with the few rows
+   * left. A no-op for live rows, which are newer than any marker.
+   */
+  private rollupRewindStatements(timestamp: number): Statement[] {
+    const updatedAt = Math.floor(Date.now() / 1000);
+
+    return (Object.keys(CANDLE_INTERVALS) as CandleInterval[]).map(interval => {
+      const seconds = CANDLE_INTERVALS[interval].seconds;
+      const bucket = Math.floor(timestamp / seconds) * seconds;
+
+      return {
+        sql: `
+          UPDATE rollup_state SET rolled_until = ?, updated_at = ?
+          WHERE interval = ? AND rolled_until > ? AND COALESCE(pruned_until, 0) <= ?
+        `,
+        params: [bucket, updatedAt, interval, timestamp, bucket]
+      };
+    });
+  }
+
+  /**
+   * Record that `consumer`'s source rows before `cutoff` have been deleted
+   */
+  private prunedStatement(consumer: CandleInterval, cutoff: number): Statement {
+    return {
+      sql: `UPDATE rollup_state SET pruned_until = MAX(COALESCE(pruned_until, 0), ?) WHERE interval = ?`,
+      params: [cutoff, consumer]
+    };
+  }
+
+
+  /**
+   * Delete an interval's candles older than the retention period, keeping
+   * any the next coarser interval hasn't rolled up yet
+   */
+  async cleanupOldCandles(interval: CandleInterval, daysToKeep: number): Promise<void> {
+    const coarser = (Object.keys(CANDLE_INTERVALS) as CandleInterval[])
+      .find(candidate => CANDLE_INTERVALS[candidate].source === interval);
+
+    try {
+      const cutoffTime = await this.retentionCutoff(daysToKeep, coarser);
+      await this.executeBatch([
+        { sql: `DELETE FROM ${CANDLE_INTERVALS[interval].table} WHERE bucket_start < ?`, params: [cutoffTime] },
+        ...(coarser ? [this.prunedStatement(coarser, cutoffTime)] : [])
+      ]);
+      console.log(`🧹 Cleaned up old ${interval} candles (kept last ${daysToKeep} days)`);
+    } catch (error) {
+      console.error(`Failed to cleanup old ${interval} candles:`, error);
+    }
+  }
+
+  /**
+   * Start of the retention window, pulled back to the rollup marker of the
+   * interval that consumes these rows so nothing is deleted before it's rolled
+   */
+  private async retentionCutoff(daysToKeep: number, consumer?: CandleInterval): Promise<number> {
+    const cutoff = Math.floor(Date.now() / 1000) - (daysToKeep * 24 * 60 * 60);
+    if (!consumer) return cutoff;
+
+    const state = await this.executeQuery('SELECT rolled_until FROM rollup_state WHERE interval = ?', [consumer]);
+    const rolledUntil: number | undefined = state?.[0]?.results?.[0]?.rolled_until;
+    return rolledUntil === undefined ? cutoff : Math.min(cutoff, rolledUntil);
+  }
+
+  async getIndicatorHistory(symbol: string, hours: number = 24, range: HistoryRange = {}): Promise<IndicatorData[]> {
     try {
-      const startTime = Math.floor(Date.now() / 1000) - (hours * 60 * 60);
+      const startTime = range.from ?? Math.floor(Date.now() / 1000) - (hours * 60 * 60);
       
-      const sql = `
+      let sql = `
         SELECT * FROM indicators 
         WHERE symbol = ? AND timestamp >= ?
-        ORDER BY timestamp ASC
       `;
+      const params: any[] = [symbol, startTime];
 
-      const result = await this.executeQuery(sql, [symbol, startTime]);
+      if (range.to !== undefined) {
+        sql += ` AND timestamp <= ?`;
+        params.push(range.to);
+      }
+
+      sql += ` ORDER BY timestamp ASC`;
+      sql += this.buildPagination(range, params);
+
+      const result = await this.executeQuery(sql, params);
       
       if (!result || !result[0] || !result[0].results) {
         return [];
       }
 
-      return result[0].results;
+      return result[0].results.map((row: any) => this.mapIndicatorRow(row));
     } catch (error) {
       console.error(`Failed to get indicator history for ${symbol}:`, error);
       return [];
     }
   }
 
-  async getSignalHistory(symbol: string, hours: number = 24): Promise<any[]> {
+  async getSignalHistory(symbol: string, hours: number = 24, range: HistoryRange = {}): Promise<SignalData[]> {
     try {
-      const startTime = Math.floor(Date.now() / 1000) - (hours * 60 * 60);
+      const startTime = range.from ?? Math.floor(Date.now() / 1000) - (hours * 60 * 60);
       
-      const sql = `
+      let sql = `
         SELECT * FROM signals 
         WHERE symbol = ? AND last_evaluated >= ?
-        ORDER BY last_evaluated DESC
       `;
+      const params: any[] = [symbol, startTime];
 
-      const result = await this.executeQuery(sql, [symbol, startTime]);
+      if (range.to !== undefined) {
+        sql += ` AND first_detected <= ?`;
+        params.push(range.to);
+      }
+
+      sql += ` ORDER BY last_evaluated DESC`;
+      sql += this.buildPagination(range, params);
+
+      const result = await this.executeQuery(sql, params);
       
       if (!result || !result[0] || !result[0].results) {
         return [];
       }
 
-      return result[0].results;
+      return result[0].results.map((row: any) => this.mapSignalRow(row));
     } catch (error) {
       console.error(`Failed to get signal history for ${symbol}:`, error);
       return [];
     }
   }
 
-  async bulkSaveIndicators(indicatorsList: any[]): Promise<{
-    saved: number;
-    failed: number;
-    errors: string[];
-  }> {
-    const result = {
-      saved: 0,
-      failed: 0,
-      errors: []
+  private buildPagination(range: HistoryRange, params: any[]): string {
+    if (range.limit === undefined) {
+      return '';
+    }
+
+    params.push(range.limit, range.offset || 0);
+    return ` LIMIT ? OFFSET ?`;
+  }
+
+  private mapIndicatorRow(row: any): IndicatorData {
+    return {
+      symbol: row.symbol,
+      price: row.price,
+      native_price: row.native_price,
+      native_currency: row.native_currency,
+      trading_currency: row.trading_currency,
+      currency_mismatch: row.currency_mismatch || 0,
+      price_usd: row.price_usd ?? undefined,
+      rsi_1m: row.rsi_1m,
+      rsi_5m: row.rsi_5m,
+      rsi_15m: row.rsi_15m,
+      ema_1m: row.ema_1m,
+      ema_5m: row.ema_5m,
+      ema_15m: row.ema_15m,
+      ema_trend: row.ema_trend,
+      volume_24h: row.volume_24h,
+      market_cap: row.market_cap,
+      volume_to_cap_ratio: row.volume_to_cap_ratio,
+      trend_score: row.trend_score,
+      hourly_change_pct: row.hourly_change_pct,
+      drawdown_from_peak: row.drawdown_from_peak,
+      volatility_pct: row.volatility_pct,
+      decimals: row.decimals,
+      analysis_mode: row.analysis_mode,
+      price_source: row.price_source ?? undefined,
+      timestamp: new Date(row.timestamp * 1000)
     };
+  }
+
+  private mapSignalRow(row: any): SignalData {
+    return {
+      symbol: row.symbol,
+      direction: row.direction,
+      confidence: row.confidence,
+      reason: row.reason,
+      vertex_age: row.vertex_age ?? undefined,
+      trend_strength: row.trend_strength ?? undefined,
+      pattern: row.pattern ?? undefined,
+      magnitude: row.magnitude ?? undefined,
+      stable: row.stable || 0,
+      first_detected: row.first_detected,
+      last_evaluated: row.last_evaluated,
+      expires_at: row.expires_at
+    };
+  }
+
+  async getSignalTransitions(symbol: string, hours: number = 24): Promise<SignalTransition[]> {
+    try {
+      const startTime = Math.floor(Date.now() / 1000) - (hours * 60 * 60);
+
+      const sql = `
+        SELECT symbol, from_direction, to_direction, confidence, reason, transitioned_at
+        FROM signal_transitions
+        WHERE symbol = ? AND transitioned_at >= ?
+        ORDER BY transitioned_at DESC
+      `;
+
+      const result = await this.executeQuery(sql, [symbol, startTime]);
+
+      if (!result || !result[0] || !result[0].results) {
+        return [];
+      }
+
+      return result[0].results;
+    } catch (error) {
+      console.error(`Failed to get signal transitions for ${symbol}:`, error);
+      return [];
+    }
+  }
+
+  async getWebhookSubscriptions(activeOnly: boolean = true): Promise<WebhookSubscription[]> {
+    try {
+      const result = await this.executeQuery(
+        activeOnly
+          ? 'SELECT * FROM webhook_subscriptions WHERE active = 1 ORDER BY id ASC'
+          : 'SELECT * FROM webhook_subscriptions ORDER BY id ASC'
+      );
+
+      if (!result || !result[0] || !result[0].results) {
+        return [];
+      }
+
+      return result[0].results.map((row: any) => ({
+        id: row.id,
+        url: row.url,
+        secret: row.secret,
+        symbols: row.symbols ? JSON.parse(row.symbols) : [],
+        directions: row.directions ? JSON.parse(row.directions) : ['BUY', 'SELL'],
+        min_confidence: row.min_confidence || 0,
+        stable_only: Boolean(row.stable_only),
+        active: Boolean(row.active),
+        created_at: row.created_at
+      }));
+    } catch (error) {
+      console.error('Failed to get webhook subscriptions:', error);
+      return [];
+    }
+  }
+
+  async saveWebhookSubscription(subscription: WebhookSubscription): Promise<number> {
+    const sql = `
+      INSERT OR REPLACE INTO webhook_subscriptions
+      (id, url, secret, symbols, directions, min_confidence, stable_only, active, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING id
+    `;
+
+    const result = await this.executeQuery(sql, [
+      subscription.id ?? null,
+      subscription.url,
+      subscription.secret,
+      JSON.stringify(subscription.symbols),
+      JSON.stringify(subscription.directions),
+      subscription.min_confidence,
+      subscription.stable_only ? 1 : 0,
+      subscription.active ? 1 : 0,
+      subscription.created_at ?? Math.floor(Date.now() / 1000)
+    ]);
+
+    return result?.[0]?.results?.[0]?.id ?? subscription.id;
+  }
+
+  async deleteWebhookSubscription(id: number): Promise<void> {
+    await this.executeQuery('DELETE FROM webhook_subscriptions WHERE id = ?', [id]);
+  }
+
+  async saveWebhookDeadLetter(deadLetter: WebhookDeadLetter): Promise<void> {
+    const sql = `
+      INSERT INTO webhook_dead_letters (subscription_id, url, payload, error, attempts, failed_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `;
+
+    await this.executeQuery(sql, [
+      deadLetter.subscription_id,
+      deadLetter.url,
+      JSON.stringify(deadLetter.payload),
+      deadLetter.error,
+      deadLetter.attempts,
+      deadLetter.failed_at
+    ]);
+  }
+
+  async getWebhookDeadLetters(limit: number = 100): Promise<WebhookDeadLetter[]> {
+    try {
+      const result = await this.executeQuery(
+        'SELECT * FROM webhook_dead_letters ORDER BY failed_at DESC LIMIT ?',
+        [limit]
+      );
+
+      if (!result || !result[0] || !result[0].results) {
+        return [];
+      }
+
+      return result[0].results.map((row: any) => ({
+        ...row,
+        payload: JSON.parse(row.payload)
+      }));
+    } catch (error) {
+      console.error('Failed to get webhook dead letters:', error);
+      return [];
+    }
+  }
+
+  async saveTrade(trade: Trade): Promise<number> {
+    const sql = `
+      INSERT OR REPLACE INTO trades (
+        id, wallet_address, symbol, strategy_type, buy_price, buy_timestamp, buy_tx_id,
+        entry_signal, sell_price, sell_timestamp, sell_tx_id, reason, amount_tokens,
+        pnl_pct, peak_pnl_pct, drawdown_pct, duration_seconds, is_backtest, backtest_id, strategy_id
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      RETURNING id
+    `;
+
+    const result = await this.executeQuery(sql, [
+      trade.id ?? null,
+      trade.wallet_address ?? null,
+      trade.symbol,
+      trade.strategy_type,
+      trade.buy_price,
+      trade.buy_timestamp,
+      trade.buy_tx_id ?? null,
+      trade.entry_signal ?? null,
+      trade.sell_price ?? null,
+      trade.sell_timestamp ?? null,
+      trade.sell_tx_id ?? null,
+      trade.reason ?? null,
+      trade.amount_tokens,
+      trade.pnl_pct ?? null,
+      trade.peak_pnl_pct ?? null,
+      trade.drawdown_pct ?? null,
+      trade.duration_seconds ?? null,
+      trade.is_backtest,
+      trade.backtest_id ?? null,
+      trade.strategy_id ?? null
+    ]);
+
+    return result?.[0]?.results?.[0]?.id ?? trade.id;
+  }
+
+  async getTrades(filter: {
+    backtestId?: string;
+    symbol?: string;
+    isBacktest?: boolean;
+    openOnly?: boolean;
+  } = {}): Promise<Trade[]> {
+    try {
+      const conditions: string[] = [];
+      const params: any[] = [];
+
+      if (filter.backtestId !== undefined) {
+        conditions.push('backtest_id = ?');
+        params.push(filter.backtestId);
+      }
+      if (filter.symbol !== undefined) {
+        conditions.push('symbol = ?');
+        params.push(filter.symbol);
+      }
+      if (filter.isBacktest !== undefined) {
+        conditions.push('is_backtest = ?');
+        params.push(filter.isBacktest ? 1 : 0);
+      }
+      if (filter.openOnly) {
+        conditions.push('sell_timestamp IS NULL');
+      }
+
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+      const result = await this.executeQuery(`SELECT * FROM trades ${where} ORDER BY buy_timestamp ASC`, params);
+
+      if (!result || !result[0] || !result[0].results) {
+        return [];
+      }
+
+      return result[0].results.map((row: any) => ({
+        ...row,
+        wallet_address: row.wallet_address ?? undefined,
+        buy_tx_id: row.buy_tx_id ?? undefined,
+        entry_signal: row.entry_signal ?? undefined,
+        sell_price: row.sell_price ?? undefined,
+        sell_timestamp: row.sell_timestamp ?? undefined,
+        sell_tx_id: row.sell_tx_id ?? undefined,
+        reason: row.reason ?? undefined,
+        pnl_pct: row.pnl_pct ?? undefined,
+        peak_pnl_pct: row.peak_pnl_pct ?? undefined,
+        drawdown_pct: row.drawdown_pct ?? undefined,
+        duration_seconds: row.duration_seconds ?? undefined,
+        backtest_id: row.backtest_id ?? undefined,
+        strategy_id: row.strategy_id ?? undefined
+      }));
+    } catch (error) {
+      console.error('Failed to get trades:', error);
+      return [];
+    }
+  }
+
+  async getStrategies(activeOnly: boolean = true): Promise<TradingStrategy[]> {
+    try {
+      const result = await this.executeQuery(
+        activeOnly
+          ? 'SELECT * FROM strategies WHERE active = 1 ORDER BY id ASC'
+          : 'SELECT * FROM strategies ORDER BY id ASC'
+      );
+
+      if (!result || !result[0] || !result[0].results) {
+        return [];
+      }
+
+      return result[0].results.map((row: any) => ({
+        id: row.id,
+        wallet_address: row.wallet_address,
+        strategy_name: row.strategy_name,
+        strategy_type: row.strategy_type,
+        parameters: row.parameters ? JSON.parse(row.parameters) : {},
+        active: Boolean(row.active),
+        created_at: row.created_at
+      }));
+    } catch (error) {
+      console.error('Failed to get strategies:', error);
+      return [];
+    }
+  }
+
+  async saveStrategy(strategy: TradingStrategy): Promise<number> {
+    const sql = `
+      INSERT OR REPLACE INTO strategies
+      (id, wallet_address, strategy_name, strategy_type, parameters, active, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      RETURNING id
+    `;
+
+    const result = await this.executeQuery(sql, [
+      strategy.id ?? null,
+      strategy.wallet_address,
+      strategy.strategy_name,
+      strategy.strategy_type,
+      JSON.stringify(strategy.parameters || {}),
+      strategy.active ? 1 : 0,
+      strategy.created_at ?? Math.floor(Date.now() / 1000)
+    ]);
+
+    return result?.[0]?.results?.[0]?.id ?? strategy.id;
+  }
+
+  async deleteStrategy(id: number): Promise<void> {
+    await this.executeQuery('DELETE FROM strategies WHERE id = ?', [id]);
+  }
+
+  async getPairCandidates(symbol: string): Promise<PairCandidate[]> {
+    try {
+      const result = await this.executeQuery(
+        'SELECT * FROM pair_candidates WHERE symbol = ? ORDER BY rank ASC',
+        [symbol]
+      );
+
+      if (!result || !result[0] || !result[0].results) {
+        return [];
+      }
+
+      return result[0].results;
+    } catch (error) {
+      console.error(`Failed to get pair candidates for ${symbol}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Replace a token's ranked candidate list in one batch, so a failure leaves the
+   * previous list intact
+   */
+  async savePairCandidates(symbol: string, candidates: PairCandidate[]): Promise<void> {
+    await this.executeBatch([
+      { sql: 'DELETE FROM pair_candidates WHERE symbol = ?', params: [symbol] },
+      ...candidates.map(candidate => ({
+        sql: `
+          INSERT OR REPLACE INTO pair_candidates
+          (symbol, pair_address, dex_id, quote_currency, liquidity_usd, volume_24h, score, rank, discovered_at)
+          VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `,
+        params: [
+          symbol,
+          candidate.pair_address,
+          candidate.dex_id,
+          candidate.quote_currency,
+          candidate.liquidity_usd,
+          candidate.volume_24h,
+          candidate.score,
+          candidate.rank,
+          candidate.discovered_at
+        ]
+      }))
+    ]);
+  }
+
+  /**
+   * Write a cycle's indicator rows in batches. If a batch is rejected, its rows
+   * are retried one by one so failures are reported per row. Throws
+   * DatabaseUnavailableError if the store can't be reached.
+   */
+  async bulkSaveIndicators(indicatorsList: IndicatorData[]): Promise<BulkWriteResult> {
+    const result: BulkWriteResult = { saved: 0, failed: 0, errors: [] };
+
+    for (let i = 0; i < indicatorsList.length; i += DatabaseService.BATCH_SIZE) {
+      const chunk = indicatorsList.slice(i, i + DatabaseService.BATCH_SIZE);
 
-    for (const indicators of indicatorsList) {
       try {
-        await this.saveFullIndicators(indicators);
-        result.saved++;
+        const earliest = Math.min(...chunk.map(indicators => Math.floor(indicators.timestamp.getTime() / 1000)));
+        await this.executeBatch([
+          ...chunk.map(indicators => this.indicatorStatement(indicators)),
+          ...this.rollupRewindStatements(earliest)
+        ]);
+        result.saved += chunk.length;
+        continue;
       } catch (error) {
-        result.failed++;
-        result.errors.push(`${indicators.symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        // Retrying row by row can't help while the store is down
+        if (error instanceof DatabaseUnavailableError) throw error;
+        console.warn(`⚠️  Indicator batch of ${chunk.length} failed, saving rows individually:`, error instanceof Error ? error.message : 'Unknown error');
+      }
+
+      for (const indicators of chunk) {
+        try {
+          await this.saveFullIndicators(indicators);
+          result.saved++;
+        } catch (error) {
+          if (error instanceof DatabaseUnavailableError) throw error;
+          result.failed++;
+          result.errors.push(`${indicators.symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
       }
     }
 
     return result;
   }
 
-  async bulkSaveSignals(signalsList: any[]): Promise<{
-    saved: number;
-    failed: number;
-    errors: string[];
+  /**
+   * Write a cycle's signal evaluations in batches, reading every symbol's
+   * current signal up front. Each signal's statements stay together so a
+   * rejected batch can be retried per signal. `transitions` lines up with
+   * the input; entries for failed rows are null. Throws
+   * DatabaseUnavailableError if the store can't be reached.
+   */
+  async bulkSaveSignals(signalsList: SignalData[]): Promise<BulkWriteResult & {
+    transitions: (SignalTransition | null)[];
   }> {
     const result = {
       saved: 0,
       failed: 0,
-      errors: []
+      errors: [] as string[],
+      transitions: signalsList.map(() => null as SignalTransition | null)
     };
 
-    for (const signal of signalsList) {
+    if (signalsList.length === 0) {
+      return result;
+    }
+
+    const current = await this.getCurrentSignals(Array.from(new Set(signalsList.map(signal => signal.symbol))));
+    const planned = signalsList.map(signal => this.signalStatements(signal, current.get(signal.symbol) || null));
+
+    for (let i = 0; i < planned.length; i += DatabaseService.BATCH_SIZE) {
+      const chunk = planned.slice(i, i + DatabaseService.BATCH_SIZE);
+
       try {
-        await this.saveSignal(signal);
-        result.saved++;
+        await this.executeBatch(chunk.flatMap(plan => plan.statements));
+        chunk.forEach((plan, j) => {
+          result.transitions[i + j] = plan.transition;
+        });
+        result.saved += chunk.length;
+        continue;
       } catch (error) {
-        result.failed++;
-        result.errors.push(`${signal.symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        if (error instanceof DatabaseUnavailableError) throw error;
+        console.warn(`⚠️  Signal batch of ${chunk.length} failed, saving signals individually:`, error instanceof Error ? error.message : 'Unknown error');
+      }
+
+      for (let j = 0; j < chunk.length; j++) {
+        try {
+          await this.executeBatch(chunk[j].statements);
+          result.transitions[i + j] = chunk[j].transition;
+          result.saved++;
+        } catch (error) {
+          if (error instanceof DatabaseUnavailableError) throw error;
+          result.failed++;
+          result.errors.push(`${signalsList[i + j].symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
       }
     }
 
     return result;
   }
-
-  async close(): Promise<void> {
-    // Cloudflare D1 is HTTP-based, no persistent connections to close
-    console.log('✅ Database service closed');
-  }
-}
\ No newline at end of file
+}
@@ -0,0 +1,98 @@
+// src/services/MaintenanceService.ts
+import { CandleInterval, IDatabaseService } from '../types/shared';
+
+interface RetentionPolicy {
+  indicatorDays: number;                       // raw one-minute rows
+  candleDays: Record<CandleInterval, number>;  // 0 keeps candles forever
+  expiredSignalDays: number;                   // how long expired signals stay queryable
+}
+
+interface MaintenanceConfig extends RetentionPolicy {
+  settleMinutes: number;   // closed buckets are rolled only after this delay, for late writes
+}
+
+const INTERVALS: CandleInterval[] = ['5m', '1h', '1d'];
+
+/**
+ * Rolls raw indicator rows into 5m, 1h and 1d candles and prunes each table
+ * by its retention policy. Rollups run before pruning and pruning never
+ * removes rows that haven't been rolled up, so a missed run only delays work.
+ */
+export class MaintenanceService {
+  // How often rollups and retention run
+  static readonly CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+  private static readonly DEFAULT_CONFIG: MaintenanceConfig = {
+    indicatorDays: 7,
+    candleDays: { '5m': 90, '1h': 730, '1d': 0 },
+    expiredSignalDays: 30,
+    settleMinutes: 15
+  };
+
+  private config: MaintenanceConfig;
+  private running = false;
+
+  constructor(private databaseService: IDatabaseService, config: Partial<MaintenanceConfig> = {}) {
+    this.config = { ...MaintenanceService.DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Bring every rollup up to date, then apply retention
+   */
+  async runAll(): Promise<{ candles: Record<CandleInterval, number>; failed: string[] }> {
+    const summary = { candles: { '5m': 0, '1h': 0, '1d': 0 }, failed: [] as string[] };
+    if (this.running) {
+      return summary;
+    }
+
+    this.running = true;
+    try {
+      // Each interval is rolled only as far as its source interval has been
+      let until = Math.floor(Date.now() / 1000) - this.config.settleMinutes * 60;
+
+      for (const interval of INTERVALS) {
+        try {
+          const { candles, rolledUntil } = await this.rollup(interval, until);
+          summary.candles[interval] = candles;
+          if (rolledUntil === null) break;
+          until = rolledUntil;
+        } catch (error) {
+          summary.failed.push(`${interval} rollup: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          break;
+        }
+      }
+
+      await this.databaseService.cleanupOldIndicators(this.config.indicatorDays);
+      for (const interval of INTERVALS) {
+        if (this.config.candleDays[interval] > 0) {
+          await this.databaseService.cleanupOldCandles(interval, this.config.candleDays[interval]);
+        }
+      }
+      await this.databaseService.cleanupExpiredSignals(this.config.expiredSignalDays);
+    } finally {
+      this.running = false;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Roll one interval chunk by chunk until it reaches `until`. Progress is
+   * stored after every chunk, so an interrupted run resumes where it stopped.
+   */
+  private async rollup(interval: CandleInterval, until: number): Promise<{ candles: number; rolledUntil: number | null }> {
+    let candles = 0;
+    let rolledUntil: number | null = null;
+
+    for (;;) {
+      const progress = await this.databaseService.rollupCandles(interval, until);
+      candles += progress.candles;
+
+      const advanced = progress.rolledUntil !== null && progress.rolledUntil !== rolledUntil;
+      rolledUntil = progress.rolledUntil;
+      if (!advanced) break;
+    }
+
+    return { candles, rolledUntil };
+  }
+}
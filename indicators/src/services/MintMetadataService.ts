@@ -0,0 +1,121 @@
+// src/services/MintMetadataService.ts
+import { Connection, PublicKey } from '@solana/web3.js';
+import { TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID, unpackMint } from '@solana/spl-token';
+import { MintInfo, TokenConfig } from '../types/shared';
+import { TokenManager } from './TokenManager';
+import { createConnection } from '../sources/rpc';
+
+/**
+ * Resolves decimals, supply and authorities for each token's mint and caches
+ * them in TokenConfig.metadata.mintInfo. Mint details rarely change, so
+ * cached entries are only re-read once they are older than the refresh period.
+ */
+export class MintMetadataService {
+  // How often to look for missing or stale entries
+  static readonly CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+  private connection: Connection;
+
+  constructor(
+    private tokenManager: TokenManager,
+    rpcUrl: string = process.env.QUICKNODE_URL || '',
+    private refreshHours: number = parseFloat(process.env.MINT_METADATA_REFRESH_HOURS || '24')
+  ) {
+    this.connection = createConnection(rpcUrl);
+  }
+
+  async fetchMintInfo(mint: string): Promise<MintInfo> {
+    const address = new PublicKey(mint);
+    const account = await this.connection.getAccountInfo(address);
+    if (!account) {
+      throw new Error(`Mint account ${mint} not found on chain`);
+    }
+
+    // Token-2022 mints share the base layout but are owned by a different program
+    const owner = account.owner;
+    if (!owner.equals(TOKEN_PROGRAM_ID) && !owner.equals(TOKEN_2022_PROGRAM_ID)) {
+      throw new Error(`Account ${mint} is not an SPL token mint (owner ${owner.toBase58()})`);
+    }
+
+    const info = unpackMint(address, account, owner);
+
+    return {
+      decimals: info.decimals,
+      supply: info.supply.toString(),
+      mintAuthority: info.mintAuthority ? info.mintAuthority.toBase58() : null,
+      freezeAuthority: info.freezeAuthority ? info.freezeAuthority.toBase58() : null,
+      tokenProgram: owner.toBase58(),
+      lastChecked: new Date().toISOString()
+    };
+  }
+
+  isStale(token: TokenConfig): boolean {
+    const cached = token.metadata?.mintInfo;
+    if (!cached) return true;
+
+    const age = Date.now() - new Date(cached.lastChecked).getTime();
+    return isNaN(age) || age > this.refreshHours * 60 * 60 * 1000;
+  }
+
+  /**
+   * Refresh mint details for active tokens that have none cached or whose
+   * cache has expired (all active tokens when forced)
+   */
+  async refreshAll(force: boolean = false): Promise<{ refreshed: number; failed: string[] }> {
+    const summary = { refreshed: 0, failed: [] as string[] };
+    const tokens = (await this.tokenManager.getActiveTokens())
+      .filter(token => force || this.isStale(token));
+
+    for (const token of tokens) {
+      try {
+        const mintInfo = await this.fetchMintInfo(token.mint);
+        const previous = token.metadata?.mintInfo;
+
+        await this.tokenManager.updateTokenMetadata(token.symbol, 'mintInfo', mintInfo);
+        summary.refreshed++;
+
+        if (previous && previous.decimals !== mintInfo.decimals) {
+          console.warn(`⚠️  ${token.symbol}: Mint decimals changed ${previous.decimals} → ${mintInfo.decimals}`);
+        }
+      } catch (error) {
+        summary.failed.push(`${token.symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Supply in whole tokens
+   */
+  static supplyUi(info: MintInfo): number {
+    return Number(BigInt(info.supply)) / Math.pow(10, info.decimals);
+  }
+
+  /**
+   * Bound a reported market cap by the fully diluted value implied by the
+   * on-chain supply. A cap above FDV means the source is reporting a
+   * different token or wrong decimals, so FDV is used instead; a missing cap
+   * is filled with FDV when a USD price is known.
+   */
+  static checkMarketCap(marketCap: number, priceUsd: number | undefined, info: MintInfo | undefined): {
+    marketCap: number;
+    adjusted: boolean;
+  } {
+    if (!info || !priceUsd || priceUsd <= 0) {
+      return { marketCap, adjusted: false };
+    }
+
+    const fdv = priceUsd * MintMetadataService.supplyUi(info);
+    if (!(fdv > 0) || !isFinite(fdv)) {
+      return { marketCap, adjusted: false };
+    }
+
+    // Allow for rounding and supply changes since the last refresh
+    if (marketCap <= 0 || marketCap > fdv * 1.05) {
+      return { marketCap: fdv, adjusted: true };
+    }
+
+    return { marketCap, adjusted: false };
+  }
+}
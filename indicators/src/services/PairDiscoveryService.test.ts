@@ -0,0 +1,48 @@
+// src/services/PairDiscoveryService.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PairDiscoveryService } from './PairDiscoveryService';
+import { DexScreenerPair, TokenConfig } from '../types/shared';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+const token: TokenConfig = { symbol: 'BONK', pair: 'bonk-sol', mint: BONK, active: true };
+
+function pair(address: string, base: [string, string], quote: [string, string], liquidity: number): DexScreenerPair {
+  return {
+    chainId: 'solana',
+    dexId: 'raydium',
+    pairAddress: address,
+    baseToken: { address: base[0], symbol: base[1], name: base[1] },
+    quoteToken: { address: quote[0], symbol: quote[1], name: quote[1] },
+    priceNative: '0.0000001',
+    priceUsd: '0.00002',
+    liquidity: { usd: liquidity, base: 0, quote: 0 },
+    volume: { h24: 1000, h6: 0, h1: 0, m5: 0 }
+  } as DexScreenerPair;
+}
+
+test('ranks pools quoted in the trading currency first, then by score', () => {
+  const candidates = PairDiscoveryService.rank(token, [
+    pair('bonk-sol', [BONK, 'BONK'], [SOL, 'SOL'], 500_000),
+    pair('bonk-usdc', [BONK, 'BONK'], [USDC, 'USDC'], 50_000),
+    pair('dust', [BONK, 'BONK'], [USDC, 'USDC'], 10)
+  ], 'USDC', 1000);
+
+  assert.deepEqual(candidates.map(candidate => [candidate.pair_address, candidate.quote_currency, candidate.rank]), [
+    ['bonk-usdc', 'USDC', 1],
+    ['bonk-sol', 'SOL', 2]
+  ]);
+});
+
+test('drops pools with the token on the quote side', () => {
+  // DexScreener prices this pool as SOL, the base token
+  const candidates = PairDiscoveryService.rank(token, [
+    pair('sol-bonk', [SOL, 'SOL'], [BONK, 'BONK'], 2_000_000),
+    pair('bonk-sol', [BONK, 'BONK'], [SOL, 'SOL'], 500_000)
+  ], 'USD', 1000);
+
+  assert.deepEqual(candidates.map(candidate => candidate.pair_address), ['bonk-sol']);
+});
@@ -0,0 +1,145 @@
+// src/services/PairDiscoveryService.ts
+import { DexScreenerPair, PairCandidate, TokenConfig, TradingCurrency, IDatabaseService } from '../types/shared';
+import { TokenManager } from './TokenManager';
+import { DexScreenerSource, defaultTradingCurrency, normalizeCurrency, tradingCurrencyFor } from '../sources';
+
+/**
+ * Finds the pools each token trades in and keeps a ranked candidate list
+ * per token in the database. The price fetch loop falls back through these
+ * candidates when the configured pair fails.
+ */
+export class PairDiscoveryService {
+  // How often to look for tokens whose candidates are missing or stale
+  static readonly CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+  // Ranked lists by symbol, loaded lazily from the database
+  private cache = new Map<string, PairCandidate[]>();
+
+  constructor(
+    private databaseService: IDatabaseService,
+    private tokenManager: TokenManager,
+    private dexScreener: DexScreenerSource = new DexScreenerSource(),
+    private refreshHours: number = parseFloat(process.env.PAIR_DISCOVERY_REFRESH_HOURS || '6'),
+    private minLiquidityUsd: number = parseFloat(process.env.PAIR_DISCOVERY_MIN_LIQUIDITY_USD || '1000'),
+    private maxCandidates: number = parseInt(process.env.PAIR_DISCOVERY_MAX_CANDIDATES || '5', 10)
+  ) {}
+
+  async getCandidates(symbol: string): Promise<PairCandidate[]> {
+    if (!this.cache.has(symbol)) {
+      this.cache.set(symbol, await this.databaseService.getPairCandidates(symbol));
+    }
+    return this.cache.get(symbol)!;
+  }
+
+  /**
+   * Drop a deleted token's cached candidates
+   */
+  forget(symbol: string): void {
+    this.cache.delete(symbol);
+  }
+
+  /**
+   * Discover, rank and store one token's candidate pools
+   */
+  async discover(token: TokenConfig): Promise<PairCandidate[]> {
+    const pairs = await this.dexScreener.fetchTokenPairs(token.mint);
+    const currency = tradingCurrencyFor(token, defaultTradingCurrency());
+    const candidates = PairDiscoveryService.rank(token, pairs, currency, this.minLiquidityUsd)
+      .slice(0, this.maxCandidates);
+
+    if (candidates.length === 0) {
+      throw new Error(`No pools above $${this.minLiquidityUsd} liquidity found for mint ${token.mint}`);
+    }
+
+    await this.databaseService.savePairCandidates(token.symbol, candidates);
+    this.cache.set(token.symbol, candidates);
+    return candidates;
+  }
+
+  async isStale(token: TokenConfig): Promise<boolean> {
+    const candidates = await this.getCandidates(token.symbol);
+    if (candidates.length === 0) return true;
+
+    const ageSeconds = Math.floor(Date.now() / 1000) - candidates[0].discovered_at;
+    return ageSeconds > this.refreshHours * 60 * 60;
+  }
+
+  /**
+   * Rediscover pools for active tokens with missing or stale candidates
+   * (all active tokens when forced)
+   */
+  async refreshAll(force: boolean = false): Promise<{ refreshed: number; failed: string[] }> {
+    const summary = { refreshed: 0, failed: [] as string[] };
+    const tokens = await this.tokenManager.getActiveTokens();
+
+    for (const token of tokens) {
+      try {
+        if (!force && !(await this.isStale(token))) continue;
+
+        const candidates = await this.discover(token);
+        summary.refreshed++;
+        console.log(`🔎 ${token.symbol}: ${candidates.length} candidate pairs, best ${candidates[0].dex_id} ${candidates[0].pair_address}`);
+      } catch (error) {
+        summary.failed.push(`${token.symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Order pools best first: pools quoted in the trading currency ahead of the
+   * rest, then by a score weighting liquidity over 24h volume (log-scaled so
+   * one huge pool doesn't swamp the comparison). Dust pools are dropped, and
+   * so are pools with the token on the quote side: DexScreener prices those
+   * as the base token, so their readings aren't this token's price.
+   */
+  static rank(
+    token: TokenConfig,
+    pairs: DexScreenerPair[],
+    currency: TradingCurrency,
+    minLiquidityUsd: number
+  ): PairCandidate[] {
+    const now = Math.floor(Date.now() / 1000);
+    const seen = new Set<string>();
+
+    return pairs
+      .filter(pair => pair.baseToken?.address === token.mint)
+      .filter(pair => (pair.liquidity?.usd || 0) >= minLiquidityUsd)
+      .filter(pair => {
+        if (seen.has(pair.pairAddress)) return false;
+        seen.add(pair.pairAddress);
+        return true;
+      })
+      .map(pair => {
+        const liquidity = pair.liquidity?.usd || 0;
+        const volume = pair.volume?.h24 || 0;
+
+        return {
+          symbol: token.symbol,
+          pair_address: pair.pairAddress,
+          dex_id: pair.dexId,
+          quote_currency: normalizeCurrency(pair.quoteToken?.symbol),
+          liquidity_usd: liquidity,
+          volume_24h: volume,
+          score: Math.round((0.7 * Math.log10(1 + liquidity) + 0.3 * Math.log10(1 + volume)) * 1000) / 1000,
+          rank: 0,
+          discovered_at: now
+        };
+      })
+      .sort((a, b) => {
+        const aMatches = PairDiscoveryService.quotedIn(a, currency);
+        const bMatches = PairDiscoveryService.quotedIn(b, currency);
+        if (aMatches !== bMatches) return aMatches ? -1 : 1;
+        return b.score - a.score;
+      })
+      .map((candidate, index) => ({ ...candidate, rank: index + 1 }));
+  }
+
+  private static quotedIn(candidate: PairCandidate, currency: TradingCurrency): boolean {
+    // USD is priced from any pool; prefer dollar-quoted ones
+    return currency === 'USD'
+      ? candidate.quote_currency === 'USDC' || candidate.quote_currency === 'USDT'
+      : candidate.quote_currency === currency;
+  }
+}
@@ -0,0 +1,147 @@
+// src/services/PaperTradingService.ts
+import { Trade, TradingStrategy, UpdateResult, IDatabaseService } from '../types/shared';
+import { BaseStrategy, createStrategy, openTrade, markTrade, closeTrade } from '../strategies';
+
+interface LoadedStrategy {
+  definition: TradingStrategy;
+  strategy: BaseStrategy;
+}
+
+export class PaperTradingService {
+  // Open simulated trades keyed by strategy_id:symbol
+  private openTrades = new Map<string, Trade>();
+  private strategies: LoadedStrategy[] = [];
+
+  constructor(private databaseService: IDatabaseService) {}
+
+  /**
+   * Load active strategies and restore open positions from the database
+   */
+  async initialize(): Promise<void> {
+    await this.reloadStrategies();
+
+    const trades = await this.databaseService.getTrades({ isBacktest: false, openOnly: true });
+    this.openTrades.clear();
+    trades.forEach(trade => {
+      // Trades opened before strategy_id was recorded belong to the wallet's strategy of that type
+      if (trade.strategy_id === undefined) {
+        trade.strategy_id = this.strategies.find(({ definition }) =>
+          definition.wallet_address === trade.wallet_address && definition.strategy_type === trade.strategy_type
+        )?.definition.id;
+      }
+      this.openTrades.set(this.positionKey(trade.strategy_id, trade.symbol), trade);
+    });
+
+    console.log(`📒 Paper trading: ${this.strategies.length} strategies, ${this.openTrades.size} open positions restored`);
+  }
+
+  async reloadStrategies(): Promise<void> {
+    const definitions = await this.databaseService.getStrategies();
+    this.strategies = [];
+
+    for (const definition of definitions) {
+      try {
+        this.strategies.push({ definition, strategy: createStrategy(definition) });
+      } catch (error) {
+        console.warn(`⚠️  Skipping strategy "${definition.strategy_name}": ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+  }
+
+  /**
+   * Run every active strategy against the cycle's per-token results:
+   * mark open positions, close the ones the strategy exits, open new ones.
+   * Readings with a currency mismatch are skipped entirely.
+   */
+  async processCycle(result: UpdateResult): Promise<{ opened: number; closed: number }> {
+    const summary = { opened: 0, closed: 0 };
+
+    for (const { definition, strategy } of this.strategies) {
+      for (const update of result.updates) {
+        // A reading in another currency isn't comparable with the position's prices
+        if (update.indicators.currency_mismatch === 1) continue;
+
+        const key = this.positionKey(definition.id, update.symbol);
+        const position = this.openTrades.get(key);
+        const price = update.indicators.price;
+        const timestamp = Math.floor(update.indicators.timestamp.getTime() / 1000);
+
+        if (position) {
+          markTrade(position, price);
+        }
+
+        const decision = strategy.evaluate({
+          signal: update.signal ?? null,
+          indicators: update.indicators,
+          position
+        });
+
+        try {
+          if (position && decision.action === 'EXIT') {
+            const closed = closeTrade(position, price, timestamp, decision.reason);
+            await this.databaseService.saveTrade(closed);
+            this.openTrades.delete(key);
+            summary.closed++;
+            console.log(`📒 ${update.symbol}: Closed ${definition.strategy_name} at ${price.toFixed(8)} (${closed.pnl_pct!.toFixed(2)}%) - ${decision.reason}`);
+
+          } else if (position) {
+            await this.databaseService.saveTrade(position);
+
+          } else if (decision.action === 'ENTER') {
+            const trade = openTrade(strategy, update.symbol, price, timestamp, update.signal ?? null, {
+              wallet_address: definition.wallet_address,
+              strategy_id: definition.id
+            });
+            trade.id = await this.databaseService.saveTrade(trade);
+            this.openTrades.set(key, trade);
+            summary.opened++;
+            console.log(`📒 ${update.symbol}: Opened ${definition.strategy_name} at ${price.toFixed(8)} - ${decision.reason}`);
+          }
+        } catch (error) {
+          console.warn(`⚠️  Failed to persist paper trade for ${update.symbol}:`, error);
+        }
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Close a strategy's open positions at each token's latest stored price,
+   * e.g. before the strategy is deleted
+   */
+  async closeStrategyPositions(strategyId: number, reason: string): Promise<number> {
+    const trades = await this.databaseService.getTrades({ isBacktest: false, openOnly: true });
+    const timestamp = Math.floor(Date.now() / 1000);
+    let closed = 0;
+
+    for (const trade of trades.filter(trade => trade.strategy_id === strategyId)) {
+      const [latest] = await this.databaseService.getLatestIndicators(trade.symbol);
+      const price = latest?.price ?? trade.buy_price;
+
+      await this.databaseService.saveTrade(closeTrade(trade, price, timestamp, reason));
+      this.openTrades.delete(this.positionKey(strategyId, trade.symbol));
+      closed++;
+      console.log(`📒 ${trade.symbol}: Closed strategy #${strategyId} position at ${price.toFixed(8)} - ${reason}`);
+    }
+
+    return closed;
+  }
+
+  getOpenPositions(symbol?: string): Trade[] {
+    return Array.from(this.openTrades.values())
+      .filter(trade => !symbol || trade.symbol === symbol)
+      .sort((a, b) => a.buy_timestamp - b.buy_timestamp);
+  }
+
+  getStatistics(): { strategies: number; openPositions: number } {
+    return {
+      strategies: this.strategies.length,
+      openPositions: this.openTrades.size
+    };
+  }
+
+  private positionKey(strategyId: number | undefined, symbol: string): string {
+    return `${strategyId ?? ''}:${symbol}`;
+  }
+}
@@ -0,0 +1,132 @@
+// src/services/PriceSeries.ts
+import { PricePoint } from '../types/shared';
+
+// How a grid sample with no observation in its step is filled
+export type GapPolicy = 'interpolate' | 'forward_fill' | 'invalidate';
+
+export const GAP_POLICIES: GapPolicy[] = ['interpolate', 'forward_fill', 'invalidate'];
+
+export interface PriceSeriesOptions {
+  gapPolicy: GapPolicy;
+  maxGapMinutes: number;          // longer gaps are never filled; older data is dropped from samples
+  invalidateGapMinutes: number;   // under invalidate, longer spacing between observations ends the series
+  retentionMinutes: number;       // points older than this, relative to the newest, are discarded
+}
+
+/**
+ * Series options from PRICE_GAP_POLICY, PRICE_MAX_GAP_MINUTES and
+ * PRICE_INVALIDATE_GAP_MINUTES, read on first use (after dotenv)
+ */
+export function priceSeriesOptions(): PriceSeriesOptions {
+  const policy = (process.env.PRICE_GAP_POLICY || 'interpolate').toLowerCase() as GapPolicy;
+  if (!GAP_POLICIES.includes(policy)) {
+    throw new Error(`Unknown PRICE_GAP_POLICY "${policy}" (expected ${GAP_POLICIES.join(', ')})`);
+  }
+
+  return {
+    gapPolicy: policy,
+    maxGapMinutes: parseFloat(process.env.PRICE_MAX_GAP_MINUTES || '10'),
+    invalidateGapMinutes: parseFloat(process.env.PRICE_INVALIDATE_GAP_MINUTES || '3'),
+    retentionMinutes: 24 * 60
+  };
+}
+
+/**
+ * Prices with the time each was observed. Calculations never index the raw
+ * points; they resample onto a fixed grid so a window of N samples always
+ * covers N steps of real time, however irregular the updates were.
+ */
+export class PriceSeries {
+  private points: PricePoint[] = [];   // ascending, one per timestamp
+
+  constructor(private options: PriceSeriesOptions = priceSeriesOptions()) {}
+
+  static from(points: PricePoint[], options?: PriceSeriesOptions): PriceSeries {
+    const series = new PriceSeries(options);
+    points.forEach(point => series.add(point.timestamp, point.price));
+    return series;
+  }
+
+  /**
+   * Record a price observed at `timestamp` (unix seconds). A second price
+   * for the same timestamp replaces the first.
+   */
+  add(timestamp: number, price: number): void {
+    let i = this.points.length;
+    while (i > 0 && this.points[i - 1].timestamp > timestamp) i--;
+
+    if (i > 0 && this.points[i - 1].timestamp === timestamp) {
+      this.points[i - 1].price = price;
+    } else {
+      this.points.splice(i, 0, { timestamp, price });
+    }
+
+    const oldest = this.points[this.points.length - 1].timestamp - this.options.retentionMinutes * 60;
+    while (this.points.length > 0 && this.points[0].timestamp < oldest) {
+      this.points.shift();
+    }
+  }
+
+  get length(): number {
+    return this.points.length;
+  }
+
+  get latest(): PricePoint | undefined {
+    return this.points[this.points.length - 1];
+  }
+
+  /**
+   * Prices every `stepMinutes` on a grid ending at `end` (unix seconds,
+   * default the newest point), oldest first. A grid time takes the latest
+   * price observed within the preceding step. A step with no observation is
+   * filled by the gap policy: interpolated between its neighbours or
+   * forward-filled. Under invalidate it takes the last observed price unless
+   * the observations either side are more than invalidateGapMinutes apart,
+   * which ends the series, so updates slower than the grid don't. Gaps longer
+   * than maxGapMinutes, including a stale newest point, always end the series.
+   */
+  resample(stepMinutes: number = 1, end: number | undefined = this.latest?.timestamp): number[] {
+    if (end === undefined || this.points.length === 0) return [];
+
+    const step = stepMinutes * 60;
+    const maxGap = this.options.maxGapMinutes * 60;
+    const invalidateGap = this.options.gapPolicy === 'invalidate' ? this.options.invalidateGapMinutes * 60 : maxGap;
+    const maxSamples = Math.floor(this.options.retentionMinutes / stepMinutes) + 1;
+    const samples: number[] = [];
+
+    // Index of the latest point at or before the grid time
+    let j = this.points.length - 1;
+
+    for (let k = 0; k < maxSamples; k++) {
+      const t = end - k * step;
+      while (j >= 0 && this.points[j].timestamp > t) j--;
+      if (j < 0) break;
+
+      const prev = this.points[j];
+      if (t - prev.timestamp < step) {
+        samples.push(prev.price);
+        continue;
+      }
+
+      const next = j + 1 < this.points.length && this.points[j + 1].timestamp <= end ? this.points[j + 1] : undefined;
+      const gap = (next ? next.timestamp : end) - prev.timestamp;
+      if (gap > Math.min(maxGap, invalidateGap)) break;
+
+      if (this.options.gapPolicy === 'interpolate' && next) {
+        const weight = (t - prev.timestamp) / (next.timestamp - prev.timestamp);
+        samples.push(prev.price + (next.price - prev.price) * weight);
+      } else {
+        samples.push(prev.price);
+      }
+    }
+
+    return samples.reverse();
+  }
+
+  /**
+   * Minutes of usable history ending at `end`
+   */
+  minutes(end?: number): number {
+    return this.resample(1, end).length;
+  }
+}
@@ -0,0 +1,162 @@
+// src/services/RateLimiter.ts
+import axios from 'axios';
+
+export interface RateLimiterStatistics {
+  name: string;
+  available: number;
+  queued: number;
+  pausedForMs: number;
+  throttled: number;
+}
+
+/**
+ * Token bucket shared by every caller of one upstream. Requests wait for a
+ * token instead of failing; an HTTP 429 pauses the whole bucket (honouring
+ * Retry-After) and the request is retried after the pause.
+ */
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private waiting: Array<() => void> = [];
+  private timer?: NodeJS.Timeout;
+  private throttled = 0;
+
+  constructor(
+    readonly name: string,
+    private capacity: number,
+    private refillPerSecond: number,
+    private maxRetries: number = 3,
+    private baseBackoffMs: number = 1000
+  ) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Resolve once a request may be sent
+   */
+  acquire(): Promise<void> {
+    return new Promise(resolve => {
+      this.waiting.push(resolve);
+      this.drain();
+    });
+  }
+
+  /**
+   * Stop handing out tokens for at least `ms`
+   */
+  backoff(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.tokens = 0;
+  }
+
+  /**
+   * Run a request under the limiter, retrying it after a backoff when the
+   * upstream answers 429
+   */
+  async schedule<T>(request: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire();
+
+      try {
+        return await request();
+      } catch (error) {
+        if (!axios.isAxiosError(error) || error.response?.status !== 429 || attempt >= this.maxRetries) {
+          throw error;
+        }
+
+        const delay = this.backoffDelay(error.response.headers?.['retry-after'], attempt);
+        this.throttled++;
+        this.backoff(delay);
+        console.warn(`⏳ ${this.name}: Rate limited (429), pausing ${delay}ms (retry ${attempt + 1}/${this.maxRetries})`);
+      }
+    }
+  }
+
+  /**
+   * Retry-After (seconds) when the upstream sends it, else exponential
+   */
+  backoffDelay(retryAfter: string | null | undefined, attempt: number): number {
+    const seconds = Number(retryAfter);
+    return retryAfter && seconds > 0
+      ? seconds * 1000
+      : this.baseBackoffMs * Math.pow(2, attempt);
+  }
+
+  recordThrottle(delayMs: number): void {
+    this.throttled++;
+    this.backoff(delayMs);
+  }
+
+  getStatistics(): RateLimiterStatistics {
+    this.refill();
+    return {
+      name: this.name,
+      available: Math.floor(this.tokens),
+      queued: this.waiting.length,
+      pausedForMs: Math.max(0, this.pausedUntil - Date.now()),
+      throttled: this.throttled
+    };
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    this.refill();
+    const now = Date.now();
+
+    while (this.waiting.length > 0 && now >= this.pausedUntil && this.tokens >= 1) {
+      this.tokens -= 1;
+      this.waiting.shift()!();
+    }
+
+    if (this.waiting.length > 0 && !this.timer) {
+      const wait = now < this.pausedUntil
+        ? this.pausedUntil - now
+        : Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.drain();
+      }, Math.max(wait, 1));
+    }
+  }
+}
+
+export type Upstream = 'dexscreener' | 'jupiter' | 'd1' | 'rpc';
+
+// Defaults sit under the published limits: DexScreener pairs 300/min,
+// Jupiter lite API 60/min, Cloudflare API 1200/5min. Rates are read on first use, after dotenv.
+const UPSTREAM_DEFAULTS: Record<Upstream, { burst: string; perSecond: string }> = {
+  dexscreener: { burst: '10', perSecond: '4' },
+  jupiter: { burst: '5', perSecond: '0.9' },
+  d1: { burst: '20', perSecond: '3.5' },
+  rpc: { burst: '25', perSecond: '20' }
+};
+
+const limiters = new Map<Upstream, RateLimiter>();
+
+/**
+ * The shared limiter for an upstream, configured from
+ * <UPSTREAM>_RATE_BURST and <UPSTREAM>_RATE_PER_SECOND
+ */
+export function rateLimiter(upstream: Upstream): RateLimiter {
+  if (!limiters.has(upstream)) {
+    const prefix = upstream.toUpperCase();
+    const defaults = UPSTREAM_DEFAULTS[upstream];
+    limiters.set(upstream, new RateLimiter(
+      upstream,
+      parseInt(process.env[`${prefix}_RATE_BURST`] || defaults.burst, 10),
+      parseFloat(process.env[`${prefix}_RATE_PER_SECOND`] || defaults.perSecond)
+    ));
+  }
+  return limiters.get(upstream)!;
+}
+
+export function getRateLimiterStatistics(): RateLimiterStatistics[] {
+  return Array.from(limiters.values()).map(limiter => limiter.getStatistics());
+}
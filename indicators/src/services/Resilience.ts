@@ -0,0 +1,229 @@
+// src/services/Resilience.ts
+import axios from 'axios';
+import { ServiceConfig } from '../types/shared';
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+export interface BreakerStatus {
+  host: string;
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  totalFailures: number;
+}
+
+interface ResilienceConfig extends Pick<ServiceConfig['api'], 'retryAttempts' | 'requestTimeout'> {
+  retryBaseMs: number;          // first retry waits up to this long, doubling each attempt
+  retryMaxMs: number;
+  breakerThreshold: number;     // consecutive failures that open a breaker
+  breakerResetMs: number;       // how long a breaker stays open before a trial request
+}
+
+/**
+ * Thrown without contacting the host while its breaker is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(readonly host: string, retryInMs: number) {
+    super(`Circuit open for ${host}, retrying in ${Math.ceil(retryInMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Non-2xx response from a fetch-style client that doesn't throw on its own
+ */
+export class UpstreamStatusError extends Error {
+  constructor(readonly status: number, url: string) {
+    super(`HTTP ${status} from ${url}`);
+    this.name = 'UpstreamStatusError';
+  }
+}
+
+class CircuitBreaker {
+  state: BreakerState = 'closed';
+  consecutiveFailures = 0;
+  totalFailures = 0;
+  openedAt = 0;
+  private probeInFlight = false;
+
+  constructor(readonly host: string, private threshold: number, private resetMs: number) {}
+
+  /**
+   * Throw if requests to the host should not be sent right now. After the
+   * reset period one trial request is let through (half-open).
+   */
+  check(): void {
+    if (this.state === 'closed') return;
+
+    const elapsed = Date.now() - this.openedAt;
+    if (this.state === 'open' && elapsed >= this.resetMs) {
+      this.state = 'half_open';
+    }
+
+    if (this.state === 'half_open' && !this.probeInFlight) {
+      this.probeInFlight = true;
+      return;
+    }
+
+    throw new CircuitOpenError(this.host, Math.max(0, this.resetMs - elapsed));
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`🔌 ${this.host}: Circuit closed`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    this.totalFailures++;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.threshold) {
+      if (this.state !== 'open') {
+        console.warn(`🔌 ${this.host}: Circuit opened after ${this.consecutiveFailures} consecutive failures`);
+      }
+      this.state = 'open';
+      this.openedAt = Date.now();
+      this.probeInFlight = false;
+    }
+  }
+
+  status(): BreakerStatus {
+    return {
+      host: this.host,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.state === 'closed' ? null : new Date(this.openedAt).toISOString(),
+      totalFailures: this.totalFailures
+    };
+  }
+}
+
+/**
+ * Retries with jittered exponential backoff and per-host circuit breakers,
+ * shared by every upstream call. Only transient failures (network errors,
+ * timeouts, 5xx) are retried or counted against a breaker; 4xx responses are
+ * the caller's problem and pass straight through.
+ */
+export class Resilience {
+  private static readonly DEFAULT_CONFIG: ResilienceConfig = {
+    retryAttempts: 3,
+    requestTimeout: 15000,
+    retryBaseMs: 500,
+    retryMaxMs: 10000,
+    breakerThreshold: 5,
+    breakerResetMs: 30000
+  };
+
+  private breakers = new Map<string, CircuitBreaker>();
+  private config: ResilienceConfig;
+
+  constructor(config: Partial<ResilienceConfig> = {}) {
+    this.config = { ...Resilience.DEFAULT_CONFIG };
+
+    // An unparsable setting would be NaN, which disables the retry limit
+    // (attempt >= NaN is never true) or the timeout
+    for (const [key, value] of Object.entries(config) as [keyof ResilienceConfig, number][]) {
+      if (value === undefined) continue;
+      if (Number.isFinite(value) && value >= 0) {
+        this.config[key] = value;
+      } else {
+        console.warn(`⚠️  Invalid resilience setting ${key}=${value}, using ${Resilience.DEFAULT_CONFIG[key]}`);
+      }
+    }
+  }
+
+  get requestTimeout(): number {
+    return this.config.requestTimeout;
+  }
+
+  /**
+   * Run a request against `url`'s host. The request receives the timeout to
+   * apply and is retried up to retryAttempts times on transient failures.
+   */
+  async execute<T>(url: string, request: (timeoutMs: number) => Promise<T>): Promise<T> {
+    const breaker = this.breaker(url);
+
+    for (let attempt = 0; ; attempt++) {
+      breaker.check();
+
+      try {
+        const result = await request(this.config.requestTimeout);
+        breaker.recordSuccess();
+        return result;
+
+      } catch (error) {
+        if (!Resilience.isTransient(error)) {
+          // The host answered; it's healthy even if the request was wrong
+          breaker.recordSuccess();
+          throw error;
+        }
+
+        breaker.recordFailure();
+        if (attempt >= this.config.retryAttempts || breaker.state === 'open') {
+          throw error;
+        }
+
+        // Full jitter: anywhere up to the exponential ceiling
+        const ceiling = Math.min(this.config.retryMaxMs, this.config.retryBaseMs * Math.pow(2, attempt));
+        await new Promise(resolve => setTimeout(resolve, Math.random() * ceiling));
+      }
+    }
+  }
+
+  getBreakerStates(): BreakerStatus[] {
+    return Array.from(this.breakers.values()).map(breaker => breaker.status());
+  }
+
+  static isTransient(error: unknown): boolean {
+    if (error instanceof CircuitOpenError) return false;
+    if (error instanceof UpstreamStatusError) return error.status >= 500 || error.status === 408;
+
+    if (axios.isAxiosError(error)) {
+      const status = error.response?.status;
+      return status === undefined || status >= 500 || status === 408;
+    }
+
+    // Fetch timeouts abort with a TimeoutError
+    if (error instanceof Error && error.name === 'TimeoutError') return true;
+
+    // Network failures from fetch surface as TypeErrors
+    return error instanceof TypeError;
+  }
+
+  private breaker(url: string): CircuitBreaker {
+    let host: string;
+    try {
+      host = new URL(url).host;
+    } catch {
+      host = url;
+    }
+
+    if (!this.breakers.has(host)) {
+      this.breakers.set(host, new CircuitBreaker(host, this.config.breakerThreshold, this.config.breakerResetMs));
+    }
+    return this.breakers.get(host)!;
+  }
+}
+
+let shared: Resilience | null = null;
+
+/**
+ * The process-wide resilience layer, configured from API_RETRY_ATTEMPTS,
+ * API_REQUEST_TIMEOUT_MS, CIRCUIT_BREAKER_THRESHOLD and CIRCUIT_BREAKER_RESET_MS
+ * on first use
+ */
+export function resilience(): Resilience {
+  if (!shared) {
+    shared = new Resilience({
+      retryAttempts: parseInt(process.env.API_RETRY_ATTEMPTS || '3', 10),
+      requestTimeout: parseInt(process.env.API_REQUEST_TIMEOUT_MS || '15000', 10),
+      breakerThreshold: parseInt(process.env.CIRCUIT_BREAKER_THRESHOLD || '5', 10),
+      breakerResetMs: parseInt(process.env.CIRCUIT_BREAKER_RESET_MS || '30000', 10)
+    });
+  }
+  return shared;
+}
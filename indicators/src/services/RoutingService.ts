@@ -0,0 +1,144 @@
+// src/services/RoutingService.ts
+import { DexScreenerPair, RoutingInfo, TokenConfig, TradingCurrency } from '../types/shared';
+import { TokenManager } from './TokenManager';
+import { DexScreenerSource, defaultTradingCurrency, normalizeCurrency, tradingCurrencyFor } from '../sources';
+
+/**
+ * Chooses how each token would be executed: which pool, on which DEX, and
+ * whether it trades directly against the trading currency or needs a hop.
+ * Results are cached in TokenConfig.metadata.routing.
+ */
+export class RoutingService {
+  // How often to look for missing or stale routes
+  static readonly CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+  constructor(
+    private tokenManager: TokenManager,
+    private dexScreener: DexScreenerSource = new DexScreenerSource(),
+    private refreshHours: number = parseFloat(process.env.ROUTING_REFRESH_HOURS || '6'),
+    private minLiquidityUsd: number = parseFloat(process.env.ROUTING_MIN_LIQUIDITY_USD || '10000')
+  ) {}
+
+  async resolve(token: TokenConfig): Promise<RoutingInfo> {
+    const pairs = await this.dexScreener.fetchTokenPairs(token.mint);
+    const route = RoutingService.chooseRoute(token, pairs, tradingCurrencyFor(token, defaultTradingCurrency()), this.minLiquidityUsd);
+
+    // A token that follows its pair's quote currency is routed in the currency this route reports
+    const currency = tradingCurrencyFor({ ...token, metadata: { ...token.metadata, routing: route } }, defaultTradingCurrency());
+    return currency === route.tradingCurrency
+      ? route
+      : RoutingService.chooseRoute(token, pairs, currency, this.minLiquidityUsd);
+  }
+
+  /**
+   * Resolve and store one token's route (on demand)
+   */
+  async refresh(symbol: string): Promise<RoutingInfo> {
+    const token = await this.tokenManager.getToken(symbol);
+    if (!token) {
+      throw new Error(`Token ${symbol} not found`);
+    }
+
+    const routing = await this.resolve(token);
+    await this.tokenManager.updateTokenMetadata(symbol, 'routing', routing);
+
+    return routing;
+  }
+
+  isStale(token: TokenConfig): boolean {
+    const cached = token.metadata?.routing;
+    if (!cached) return true;
+
+    const age = Date.now() - new Date(cached.lastChecked).getTime();
+    return isNaN(age) || age > this.refreshHours * 60 * 60 * 1000;
+  }
+
+  /**
+   * Refresh routes for active tokens that have none or whose route has
+   * expired (all active tokens when forced)
+   */
+  async refreshAll(force: boolean = false): Promise<{ refreshed: number; failed: string[] }> {
+    const summary = { refreshed: 0, failed: [] as string[] };
+    const tokens = (await this.tokenManager.getActiveTokens())
+      .filter(token => force || this.isStale(token));
+
+    for (const token of tokens) {
+      try {
+        const routing = await this.resolve(token);
+        await this.tokenManager.updateTokenMetadata(token.symbol, 'routing', routing);
+        summary.refreshed++;
+
+        if (routing.currencyMismatch) {
+          console.warn(`💱 ${token.symbol}: Configured pair is quoted in ${routing.nativeCurrency}, trading currency is ${routing.tradingCurrency}`);
+        }
+      } catch (error) {
+        summary.failed.push(`${token.symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Pick the deepest pool that trades the token directly against its trading
+   * currency, provided it clears the liquidity floor; otherwise route through
+   * the deepest pool of any quote and hop to the trading currency.
+   */
+  static chooseRoute(
+    token: TokenConfig,
+    pairs: DexScreenerPair[],
+    tradingCurrency: TradingCurrency,
+    minLiquidityUsd: number
+  ): RoutingInfo {
+    const pools = pairs
+      .map(pair => ({
+        pair,
+        counter: RoutingService.counterCurrency(pair, token.mint),
+        liquidity: pair.liquidity?.usd || 0
+      }))
+      .filter(pool => pool.counter !== null)
+      .sort((a, b) => b.liquidity - a.liquidity);
+
+    if (pools.length === 0) {
+      throw new Error(`No Solana pools found for mint ${token.mint}`);
+    }
+
+    const direct = pools.find(pool => RoutingService.isDirect(pool.counter!, tradingCurrency));
+    const chosen = direct && direct.liquidity >= minLiquidityUsd ? direct : pools[0];
+    const isDirect = RoutingService.isDirect(chosen.counter!, tradingCurrency);
+
+    // The configured pair decides what the indicator series is natively quoted in
+    const configured = pools.find(pool => pool.pair.pairAddress === token.pair) ?? chosen;
+
+    // $1M of liquidity or more is full confidence; a hop costs a fifth
+    const depth = Math.min(1, Math.log10(Math.max(chosen.liquidity, 1)) / 6);
+    const confidence = Math.round(depth * (isDirect ? 1 : 0.8) * 100) / 100;
+
+    return {
+      tradingCurrency,
+      nativeCurrency: configured.counter!,
+      isDirect,
+      executionPath: isDirect
+        ? [token.symbol, chosen.counter!]
+        : [token.symbol, chosen.counter!, tradingCurrency],
+      confidence,
+      preferredDEX: chosen.pair.dexId,
+      currencyMismatch: !RoutingService.isDirect(configured.counter!, tradingCurrency),
+      lastChecked: new Date().toISOString()
+    };
+  }
+
+  // USD settles through either dollar stablecoin
+  private static isDirect(counter: string, tradingCurrency: TradingCurrency): boolean {
+    return tradingCurrency === 'USD'
+      ? counter === 'USDC' || counter === 'USDT'
+      : counter === tradingCurrency;
+  }
+
+  // The currency on the other side of the pool from the token
+  private static counterCurrency(pair: DexScreenerPair, mint: string): string | null {
+    if (pair.baseToken?.address === mint) return normalizeCurrency(pair.quoteToken?.symbol);
+    if (pair.quoteToken?.address === mint) return normalizeCurrency(pair.baseToken?.symbol);
+    return null;
+  }
+}
@@ -1,5 +1,6 @@
 // src/services/SignalGenerator.ts
-import { TrendSignal } from '../types/shared';
+import { SignalData, TrendSignal } from '../types/shared';
+import { PriceSeries } from './PriceSeries';
 
 interface SignalConfig {
   MIN_VERTEX_AGE: number;      // minutes
@@ -9,6 +10,7 @@ interface SignalConfig {
   STABILITY_BUFFER: number;    // number of confirmations
   CONFIDENCE_THRESHOLD: number;
   WEIGHTED_ALPHA: number;      // weighting factor for recent data
+  LOG_PATTERNS: boolean;       // log every pattern analysis (off for backtests)
 }
 
 interface PatternResult {
@@ -30,7 +32,8 @@ export class SignalGenerator {
     MIN_MAGNITUDE: 1.5,
     STABILITY_BUFFER: 3,
     CONFIDENCE_THRESHOLD: 0.6,
-    WEIGHTED_ALPHA: 0.5
+    WEIGHTED_ALPHA: 0.5,
+    LOG_PATTERNS: true
   };
 
   // Signal stability tracking
@@ -41,11 +44,14 @@ export class SignalGenerator {
   }
 
   /**
-   * Analyze price data for trading signals using quadratic pattern recognition
+   * Analyze price data for trading signals using quadratic pattern recognition.
+   * The series is resampled onto a one-minute grid ending at lastUpdated, so
+   * vertex ages are real minutes.
    */
-  generateSignal(symbol: string, prices: number[], lastUpdated: number = Date.now()): TrendSignal {
+  generateSignal(symbol: string, series: PriceSeries, lastUpdated: number = Date.now()): TrendSignal {
+    const prices = series.resample(1, Math.floor(lastUpdated / 1000));
     if (prices.length < 360) {
-      return this.createSignal('NONE', 0, `Insufficient data (${prices.length}/360 points)`, lastUpdated);
+      return this.createSignal('NONE', 0, `Insufficient data (${prices.length}/360 minutes)`, lastUpdated);
     }
 
     try {
@@ -68,7 +74,7 @@ export class SignalGenerator {
    */
   private analyzeQuadraticPattern(prices: number[], timestamp: number): PatternResult {
     const y = [...prices]; // Work with a copy
-    const x = y.map((_, i) => i);
+    const x = y.map((_, i) => i); // minutes on the one-minute grid
     const end = y[y.length - 1];
 
     // Perform quadratic regression: y = ax² + bx + c
@@ -87,7 +93,7 @@ export class SignalGenerator {
     const isUShaped = a > 0;
     const isInvertedUShaped = a < 0;
 
-    console.log(`📊 ${this.getCurrentTime()} Pattern Analysis: ${isUShaped ? 'U' : '∩'}-shaped, vertex ${minutesSinceVertex}min ago, magnitude ${pctChangeVertexToRecent.toFixed(2)}%`);
+    if (this.config.LOG_PATTERNS) console.log(`📊 ${this.getCurrentTime()} Pattern Analysis: ${isUShaped ? 'U' : '∩'}-shaped, vertex ${minutesSinceVertex}min ago, magnitude ${pctChangeVertexToRecent.toFixed(2)}%`);
 
     // Validate vertex age
     if (minutesSinceVertex < this.config.MIN_VERTEX_AGE!) {
@@ -359,4 +365,23 @@ export class SignalGenerator {
       averageHistoryLength: Math.round(averageHistoryLength * 10) / 10
     };
   }
+
+  /**
+   * A stored signal row in the shape generateSignal returns
+   */
+  static toTrendSignal(row: SignalData): TrendSignal {
+    return {
+      direction: row.direction as TrendSignal['direction'],
+      confidence: row.confidence,
+      firstDetected: new Date(row.first_detected * 1000).toISOString(),
+      lastEvaluated: new Date(row.last_evaluated * 1000).toISOString(),
+      expiresAt: new Date(row.expires_at * 1000).toISOString(),
+      reason: row.reason,
+      vertexAge: row.vertex_age,
+      trendStrength: row.trend_strength as TrendSignal['trendStrength'],
+      stable: !!row.stable,
+      pattern: row.pattern as TrendSignal['pattern'],
+      magnitude: row.magnitude
+    };
+  }
 }
\ No newline at end of file
@@ -0,0 +1,228 @@
+// src/services/SignalStream.ts
+import { WebSocketServer, WebSocket } from 'ws';
+import { IDatabaseService, IndicatorData, TrendSignal, UpdateResult } from '../types/shared';
+import { SignalGenerator } from './SignalGenerator';
+
+export type StreamEventType = 'snapshot' | 'indicator' | 'signal';
+
+export interface StreamEvent {
+  type: StreamEventType;
+  symbol?: string;
+  data: any;
+  timestamp: number;
+}
+
+interface SymbolSnapshot {
+  indicators: IndicatorData;
+  signal?: TrendSignal;
+}
+
+interface StreamClient {
+  id: number;
+  // null means "all symbols"
+  symbols: Set<string> | null;
+  send(event: StreamEvent): void;
+  ping(): void;
+  close(): void;
+}
+
+export class SignalStream {
+  private static readonly KEEPALIVE_MS = 25000;
+
+  private snapshots = new Map<string, SymbolSnapshot>();
+  private clients = new Map<number, StreamClient>();
+  private nextClientId = 1;
+  private wss?: WebSocketServer;
+  private keepAliveTimer?: NodeJS.Timeout;
+
+  /**
+   * Start from the stored latest indicators and current signals, so clients
+   * connecting before the first cycle get a snapshot and a restart doesn't
+   * announce every token's existing signal as new
+   */
+  async seed(databaseService: IDatabaseService): Promise<number> {
+    const [indicators, signals] = await Promise.all([
+      databaseService.getLatestIndicators(),
+      databaseService.getActiveSignals()
+    ]);
+
+    indicators.forEach(row => {
+      if (!this.snapshots.has(row.symbol)) {
+        this.snapshots.set(row.symbol, { indicators: row });
+      }
+    });
+    signals.forEach(row => {
+      const snapshot = this.snapshots.get(row.symbol);
+      if (snapshot && !snapshot.signal) {
+        snapshot.signal = SignalGenerator.toTrendSignal(row);
+      }
+    });
+
+    return this.snapshots.size;
+  }
+
+  /**
+   * Publish the per-token results of an update cycle. Every new indicator row
+   * is pushed; signals are only pushed when their direction changes.
+   */
+  publish(result: UpdateResult): void {
+    for (const update of result.updates) {
+      const previous = this.snapshots.get(update.symbol);
+      const signal = update.signal ?? previous?.signal;
+
+      this.snapshots.set(update.symbol, { indicators: update.indicators, signal });
+      this.broadcast({
+        type: 'indicator',
+        symbol: update.symbol,
+        data: update.indicators,
+        timestamp: Date.now()
+      });
+
+      if (update.signal && update.signal.direction !== previous?.signal?.direction) {
+        this.broadcast({
+          type: 'signal',
+          symbol: update.symbol,
+          data: {
+            signal: update.signal,
+            previousDirection: previous?.signal?.direction ?? update.transition?.from_direction ?? null
+          },
+          timestamp: Date.now()
+        });
+      }
+    }
+  }
+
+  /**
+   * Express handler for Server-Sent Events: GET /stream?symbols=BONK,WIF
+   */
+  handleSse(req: any, res: any): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    res.write('\n');
+
+    const client = this.addClient(this.parseSymbols(req.query.symbols), {
+      send: event => res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`),
+      ping: () => res.write(': keepalive\n\n'),
+      close: () => res.end()
+    });
+
+    req.on('close', () => this.clients.delete(client.id));
+  }
+
+  /**
+   * Accept WebSocket clients on the given HTTP server. Clients may pass
+   * ?symbols= on connect and later send {"type":"subscribe"|"unsubscribe","symbols":[...]}.
+   */
+  attach(server: any, path: string = '/ws'): void {
+    this.wss = new WebSocketServer({ server, path });
+
+    this.wss.on('connection', (socket: WebSocket, req: any) => {
+      const url = new URL(req.url || path, 'http://localhost');
+      const client = this.addClient(this.parseSymbols(url.searchParams.get('symbols')), {
+        send: event => {
+          if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify(event));
+          }
+        },
+        ping: () => socket.ping(),
+        close: () => socket.close()
+      });
+
+      socket.on('message', raw => this.handleSubscription(client, raw.toString()));
+      socket.on('close', () => this.clients.delete(client.id));
+      socket.on('error', () => this.clients.delete(client.id));
+    });
+
+    console.log(`📡 Signal stream accepting WebSocket clients on ${path}`);
+  }
+
+  getStatistics(): { clients: number; symbolsTracked: number } {
+    return {
+      clients: this.clients.size,
+      symbolsTracked: this.snapshots.size
+    };
+  }
+
+  close(): void {
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = undefined;
+    }
+    this.clients.forEach(client => client.close());
+    this.clients.clear();
+    this.wss?.close();
+  }
+
+  private addClient(
+    symbols: Set<string> | null,
+    transport: Pick<StreamClient, 'send' | 'ping' | 'close'>
+  ): StreamClient {
+    const client: StreamClient = { id: this.nextClientId++, symbols, ...transport };
+    this.clients.set(client.id, client);
+
+    // Keep idle connections open through proxies
+    if (!this.keepAliveTimer) {
+      this.keepAliveTimer = setInterval(() => {
+        this.clients.forEach(c => c.ping());
+      }, SignalStream.KEEPALIVE_MS);
+      this.keepAliveTimer.unref();
+    }
+
+    this.sendSnapshot(client);
+    return client;
+  }
+
+  private handleSubscription(client: StreamClient, message: string): void {
+    try {
+      const { type, symbols } = JSON.parse(message);
+      const requested = this.parseSymbols(symbols);
+
+      if (type === 'subscribe') {
+        // Subscribing to specific symbols narrows an "all symbols" client
+        client.symbols = requested ? new Set([...(client.symbols || []), ...requested]) : null;
+        this.sendSnapshot(client);
+      } else if (type === 'unsubscribe' && requested) {
+        // An "all symbols" client keeps every symbol known so far except these
+        client.symbols = client.symbols || new Set(this.snapshots.keys());
+        requested.forEach(symbol => client.symbols!.delete(symbol));
+      }
+    } catch (error) {
+      console.warn(`⚠️  Ignoring malformed stream message from client ${client.id}`);
+    }
+  }
+
+  private sendSnapshot(client: StreamClient): void {
+    const data: Record<string, SymbolSnapshot> = {};
+    this.snapshots.forEach((snapshot, symbol) => {
+      if (this.isSubscribed(client, symbol)) {
+        data[symbol] = snapshot;
+      }
+    });
+
+    client.send({ type: 'snapshot', data, timestamp: Date.now() });
+  }
+
+  private broadcast(event: StreamEvent): void {
+    this.clients.forEach(client => {
+      if (!event.symbol || this.isSubscribed(client, event.symbol)) {
+        client.send(event);
+      }
+    });
+  }
+
+  private isSubscribed(client: StreamClient, symbol: string): boolean {
+    return client.symbols === null || client.symbols.has(symbol);
+  }
+
+  private parseSymbols(value: any): Set<string> | null {
+    const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+    const symbols = list
+      .map((symbol: any) => String(symbol).trim().toUpperCase())
+      .filter((symbol: string) => symbol.length > 0);
+
+    return symbols.length > 0 ? new Set<string>(symbols) : null;
+  }
+}
@@ -0,0 +1,77 @@
+// src/services/SqliteDatabaseService.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { DatabaseService, Statement } from './DatabaseService';
+
+/**
+ * Embedded SQLite file, for local development and for running off the
+ * Render disk without Cloudflare credentials
+ */
+export class SqliteDatabaseService extends DatabaseService {
+  private db: Database.Database | null = null;
+
+  constructor(private filePath: string = process.env.SQLITE_PATH || './data/indicators.db') {
+    super();
+  }
+
+  async initialize(): Promise<void> {
+    if (!this.db) {
+      if (this.filePath !== ':memory:') {
+        fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      }
+
+      this.db = new Database(this.filePath);
+      this.db.pragma('journal_mode = WAL');
+      console.log(`[DB] Opened SQLite database at ${this.filePath}`);
+    }
+
+    await super.initialize();
+  }
+
+  protected async executeQuery(sql: string, params: any[] = []): Promise<any> {
+    return [this.run({ sql, params })];
+  }
+
+  protected async executeBatch(statements: Statement[]): Promise<any[]> {
+    if (statements.length === 0) return [];
+
+    const db = this.connection();
+    return db.transaction(() => statements.map(statement => this.run(statement)))();
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+    console.log('✅ Database service closed');
+  }
+
+  /**
+   * Execute one statement and shape the outcome like a D1 result
+   */
+  private run({ sql, params }: Statement): any {
+    const statement = this.connection().prepare(sql);
+    // Bind values the way D1's JSON API receives them
+    const values = params.map(value => value === undefined ? null : typeof value === 'boolean' ? (value ? 1 : 0) : value);
+
+    if (statement.reader) {
+      return { success: true, results: statement.all(...values) };
+    }
+
+    const info = statement.run(...values);
+    return {
+      success: true,
+      results: [],
+      meta: { changes: info.changes, last_row_id: Number(info.lastInsertRowid) }
+    };
+  }
+
+  private connection(): Database.Database {
+    if (!this.db) {
+      throw new Error('SQLite database is not open; call initialize() first');
+    }
+    return this.db;
+  }
+}
@@ -0,0 +1,154 @@
+// src/services/TechnicalIndicators.ts
+import { PriceSeries } from './PriceSeries';
+
+export interface IndicatorSet {
+  rsi_1m: number;
+  rsi_5m: number;
+  rsi_15m: number;
+  ema_1m: number;
+  ema_5m: number;
+  ema_15m: number;
+  ema_trend: 'up' | 'down' | 'flat';
+  trend_score: number;
+  hourly_change_pct: number;
+  drawdown_from_peak: number;
+  volatility_pct: number;
+}
+
+// ============================================================================
+// TECHNICAL INDICATORS MODULE (Modular design for future extensions)
+// ============================================================================
+export class TechnicalIndicators {
+  static calculateRSI(prices: number[], period: number = 14): number {
+    if (prices.length < period + 1) return 50;
+
+    const deltas = prices.slice(1).map((v, i) => v - prices[i]);
+    const gains = deltas.map(d => (d > 0 ? d : 0));
+    const losses = deltas.map(d => (d < 0 ? -d : 0));
+    
+    let avgGain = gains.slice(0, period).reduce((a, b) => a + b, 0) / period;
+    let avgLoss = losses.slice(0, period).reduce((a, b) => a + b, 0) / period;
+    
+    if (avgLoss === 0) return 100;
+    
+    const rs = avgGain / avgLoss;
+    return 100 - 100 / (1 + rs);
+  }
+
+  static calculateEMA(prices: number[], period: number = 20): number {
+    if (prices.length === 0) return 0;
+    if (prices.length === 1) return prices[0];
+
+    const k = 2 / (period + 1);
+    return prices.reduce((ema, price, i) => (i === 0 ? price : price * k + ema * (1 - k)));
+  }
+
+  static calculateTrendMetrics(rawPrices: number[]): {
+    hourlyChangePct: number;
+    drawdownFromPeak: number;
+    volatilityPct: number;
+    emaTrend: 'up' | 'down' | 'flat';
+    trendScore: number;
+  } {
+    if (rawPrices.length < 60) {
+      return {
+        hourlyChangePct: 0,
+        drawdownFromPeak: 0,
+        volatilityPct: 0,
+        emaTrend: 'flat',
+        trendScore: 0
+      };
+    }
+
+    const recent = rawPrices.slice(-60); // Last hour of one-minute samples
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    const peak = Math.max(...recent);
+    const trough = Math.min(...recent);
+    
+    // EMA trend calculation
+    const ema = this.calculateEMA(recent, 20);
+    const emaPrev = this.calculateEMA(recent.slice(0, -1), 20);
+    const delta = ema - emaPrev;
+    
+    let emaTrend: 'up' | 'down' | 'flat';
+    if (delta > 0.00001) emaTrend = 'up';
+    else if (delta < -0.00001) emaTrend = 'down';
+    else emaTrend = 'flat';
+
+    // Calculate metrics
+    const hourlyChangePct = ((last - first) / first) * 100;
+    const drawdownFromPeak = ((peak - last) / peak) * 100;
+    const volatilityPct = ((peak - trough) / trough) * 100;
+
+    // Trend score calculation (0-100)
+    let trendScore = 0;
+    if (hourlyChangePct > 0) trendScore += 30;
+    if (drawdownFromPeak < 10) trendScore += 30;
+    if (volatilityPct > 5) trendScore += 20;
+    if (emaTrend === 'up') trendScore += 20;
+
+    return {
+      hourlyChangePct,
+      drawdownFromPeak,
+      volatilityPct,
+      emaTrend,
+      trendScore
+    };
+  }
+
+  /**
+   * Indicators at `end` (unix seconds, default the newest observation). Each
+   * timeframe is resampled from the series onto its own grid, so windows
+   * cover real minutes even when updates were skipped or late.
+   */
+  static calculateAll(price: number, series: PriceSeries, end?: number): IndicatorSet {
+    // Multi-timeframe indicator calculation
+    const indicators: IndicatorSet = {
+      rsi_1m: 50,
+      rsi_5m: 50,
+      rsi_15m: 50,
+      ema_1m: price,
+      ema_5m: price,
+      ema_15m: price,
+      ema_trend: 'flat',
+      trend_score: 0,
+      hourly_change_pct: 0,
+      drawdown_from_peak: 0,
+      volatility_pct: 0
+    };
+
+    const minutePrices = series.resample(1, end);
+    if (minutePrices.length >= 15) {
+      // 1-minute timeframe (last 14 periods)
+      indicators.rsi_1m = this.calculateRSI(minutePrices.slice(-15), 14);
+      indicators.ema_1m = this.calculateEMA(minutePrices.slice(-20), 20);
+    }
+
+    const fiveMinPrices = series.resample(5, end).slice(-15);
+    if (fiveMinPrices.length >= 15) {
+      // 5-minute timeframe (last 14 periods)
+      indicators.rsi_5m = this.calculateRSI(fiveMinPrices, 14);
+      indicators.ema_5m = this.calculateEMA(fiveMinPrices, 20);
+    }
+
+    const fifteenMinPrices = series.resample(15, end).slice(-15);
+    if (fifteenMinPrices.length >= 15) {
+      // 15-minute timeframe (last 14 periods)
+      indicators.rsi_15m = this.calculateRSI(fifteenMinPrices, 14);
+      indicators.ema_15m = this.calculateEMA(fifteenMinPrices, 20);
+    }
+
+    // Trend metrics (requires at least 1 hour of data)
+    if (minutePrices.length >= 60) {
+      const trendMetrics = this.calculateTrendMetrics(minutePrices);
+      indicators.ema_trend = trendMetrics.emaTrend;
+      indicators.trend_score = trendMetrics.trendScore;
+      indicators.hourly_change_pct = trendMetrics.hourlyChangePct;
+      indicators.drawdown_from_peak = trendMetrics.drawdownFromPeak;
+      indicators.volatility_pct = trendMetrics.volatilityPct;
+    }
+
+    return indicators;
+  }
+}
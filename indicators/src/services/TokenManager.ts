@@ -1,9 +1,12 @@
 // src/services/TokenManager.ts
-import { TokenConfig } from '../types/shared';
-import { DatabaseService } from './DatabaseService';
+import { TokenConfig, IDatabaseService } from '../types/shared';
+import { TRADING_CURRENCIES, isTradingCurrency } from '../sources';
 
 export class TokenManager {
-  constructor(private databaseService: DatabaseService) {}
+  // Token writes run one at a time so each reads the previous one's result
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private databaseService: IDatabaseService) {}
 
   async loadTokens(): Promise<TokenConfig[]> {
     try {
@@ -28,7 +31,7 @@ export class TokenManager {
 
   async getAllTokens(): Promise<TokenConfig[]> {
     try {
-      return await this.databaseService.getTokens();
+      return await this.databaseService.getTokens(false);
     } catch (error) {
       console.error('Failed to get all tokens:', error);
       return [];
@@ -37,7 +40,7 @@ export class TokenManager {
 
   async getToken(symbol: string): Promise<TokenConfig | null> {
     try {
-      const tokens = await this.databaseService.getTokens();
+      const tokens = await this.databaseService.getTokens(false);
       return tokens.find(token => token.symbol === symbol) || null;
     } catch (error) {
       console.error(`Failed to get token ${symbol}:`, error);
@@ -56,6 +59,38 @@ export class TokenManager {
   }
 
   async updateToken(symbol: string, updates: Partial<TokenConfig>): Promise<void> {
+    return this.serialize(() => this.applyUpdate(symbol, updates));
+  }
+
+  /**
+   * Set one metadata key on the stored token, leaving every other key as it
+   * is now. Services refreshing different keys on their own schedules must
+   * use this rather than spreading a token they read earlier.
+   */
+  async updateTokenMetadata<K extends keyof NonNullable<TokenConfig['metadata']>>(
+    symbol: string,
+    key: K,
+    value: NonNullable<TokenConfig['metadata']>[K]
+  ): Promise<void> {
+    return this.serialize(async () => {
+      const token = await this.getToken(symbol);
+      if (!token) {
+        throw new Error(`Token ${symbol} not found`);
+      }
+
+      await this.applyUpdate(symbol, { metadata: { ...token.metadata, [key]: value } });
+    });
+  }
+
+  // Queue a write behind the ones already pending; a failure doesn't block the next
+  private serialize(task: () => Promise<void>): Promise<void> {
+    const write = this.writes.then(task);
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  // Read-modify-write of the whole row; callers must hold the write queue
+  private async applyUpdate(symbol: string, updates: Partial<TokenConfig>): Promise<void> {
     try {
       const existingToken = await this.getToken(symbol);
       if (!existingToken) {
@@ -86,18 +121,20 @@ export class TokenManager {
   }
 
   async toggleToken(symbol: string): Promise<void> {
-    try {
-      const token = await this.getToken(symbol);
-      if (!token) {
-        throw new Error(`Token ${symbol} not found`);
-      }
+    return this.serialize(async () => {
+      try {
+        const token = await this.getToken(symbol);
+        if (!token) {
+          throw new Error(`Token ${symbol} not found`);
+        }
 
-      await this.updateToken(symbol, { active: !token.active });
-      console.log(`✅ ${symbol} is now ${!token.active ? 'ACTIVE' : 'INACTIVE'}`);
-    } catch (error) {
-      console.error(`Failed to toggle token ${symbol}:`, error);
-      throw error;
-    }
+        await this.applyUpdate(symbol, { active: !token.active });
+        console.log(`✅ ${symbol} is now ${!token.active ? 'ACTIVE' : 'INACTIVE'}`);
+      } catch (error) {
+        console.error(`Failed to toggle token ${symbol}:`, error);
+        throw error;
+      }
+    });
   }
 
   async validateTokens(): Promise<{
@@ -123,7 +160,7 @@ export class TokenManager {
     return { valid, invalid };
   }
 
-  private validateToken(token: TokenConfig): { isValid: boolean; reason?: string } {
+  validateToken(token: TokenConfig): { isValid: boolean; reason?: string } {
     // Basic validation
     if (!token.symbol || token.symbol.length < 1) {
       return { isValid: false, reason: 'Missing or invalid symbol' };
@@ -142,6 +179,11 @@ export class TokenManager {
       return { isValid: false, reason: 'Symbol format invalid (should be 2-10 alphanumeric characters)' };
     }
 
+    const tradingCurrency = token.metadata?.tradingCurrency;
+    if (tradingCurrency !== undefined && !isTradingCurrency(tradingCurrency)) {
+      return { isValid: false, reason: `Trading currency must be one of ${TRADING_CURRENCIES.join(', ')}` };
+    }
+
     return { isValid: true };
   }
 
@@ -0,0 +1,148 @@
+// src/services/WebhookDispatcher.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { WebhookDispatcher } from './WebhookDispatcher';
+import { IDatabaseService, IndicatorData, TokenUpdate, UpdateResult, WebhookSubscription } from '../types/shared';
+
+interface Received {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+async function startStub(status: number = 200): Promise<{ url: string; received: Received[]; close(): Promise<void> }> {
+  const received: Received[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      received.push({ path: req.url!, headers: req.headers, body });
+      res.writeHead(status).end();
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    received,
+    close: () => new Promise<void>(resolve => server.close(() => resolve()))
+  };
+}
+
+function subscription(id: number, url: string, overrides: Partial<WebhookSubscription> = {}): WebhookSubscription {
+  return {
+    id,
+    url: `${url}/hook-${id}`,
+    secret: `secret-${id}`,
+    symbols: [],
+    directions: ['BUY', 'SELL'],
+    min_confidence: 0,
+    stable_only: false,
+    active: true,
+    ...overrides
+  };
+}
+
+function cycle(direction: 'BUY' | 'SELL' | 'NONE', confidence: number, stable: boolean, transition: boolean): UpdateResult {
+  const update: TokenUpdate = {
+    symbol: 'BONK',
+    indicators: { symbol: 'BONK', price: 1, timestamp: new Date() } as IndicatorData,
+    signal: {
+      direction,
+      confidence,
+      stable,
+      reason: 'test',
+      firstDetected: '',
+      lastEvaluated: '',
+      expiresAt: ''
+    },
+    transition: transition
+      ? { symbol: 'BONK', from_direction: 'NONE', to_direction: direction, confidence, reason: 'test', transitioned_at: 1700000000 }
+      : null
+  };
+
+  return { updates: [update] } as UpdateResult;
+}
+
+function databaseWith(subscriptions: WebhookSubscription[], deadLetters: any[] = []): IDatabaseService {
+  return {
+    getWebhookSubscriptions: async () => subscriptions,
+    saveWebhookDeadLetter: async (deadLetter: any) => {
+      deadLetters.push(deadLetter);
+    }
+  } as unknown as IDatabaseService;
+}
+
+test('delivers a signed transition once, and to stable_only subscriptions when it is confirmed', async () => {
+  const stub = await startStub();
+  try {
+    const immediate = subscription(1, stub.url);
+    const stableOnly = subscription(2, stub.url, { stable_only: true, min_confidence: 0.7 });
+    const dispatcher = new WebhookDispatcher(databaseWith([immediate, stableOnly]), { RETRY_BASE_MS: 1 });
+
+    // Transition cycle: unconfirmed, confidence reduced
+    assert.equal(await dispatcher.dispatch(cycle('BUY', 0.64, false, true)), 1);
+    await dispatcher.flush();
+    // Still waiting for confirmation
+    assert.equal(await dispatcher.dispatch(cycle('BUY', 0.64, false, false)), 0);
+    // Confirmed
+    assert.equal(await dispatcher.dispatch(cycle('BUY', 0.8, true, false)), 1);
+    await dispatcher.flush();
+    // Closed once confirmed
+    assert.equal(await dispatcher.dispatch(cycle('BUY', 0.8, true, false)), 0);
+
+    assert.deepEqual(stub.received.map(r => r.path), ['/hook-1', '/hook-2']);
+
+    for (const [i, request] of stub.received.entries()) {
+      const timestamp = request.headers['x-webhook-timestamp'] as string;
+      const expected = `sha256=${WebhookDispatcher.sign(`secret-${i + 1}`, timestamp, request.body)}`;
+      assert.equal(request.headers['x-webhook-signature'], expected);
+
+      const payload = JSON.parse(request.body);
+      assert.equal(payload.event, 'signal.transition');
+      assert.equal(payload.transition.to_direction, 'BUY');
+    }
+    assert.equal(JSON.parse(stub.received[1].body).signal.stable, true);
+  } finally {
+    await stub.close();
+  }
+});
+
+test('drops a transition that reverts before it is confirmed', async () => {
+  const stub = await startStub();
+  try {
+    const dispatcher = new WebhookDispatcher(databaseWith([subscription(1, stub.url, { stable_only: true })]));
+
+    assert.equal(await dispatcher.dispatch(cycle('SELL', 0.6, false, true)), 0);
+    assert.equal(await dispatcher.dispatch(cycle('NONE', 0.1, false, false)), 0);
+    assert.equal(await dispatcher.dispatch(cycle('SELL', 0.8, true, false)), 0);
+    assert.equal(stub.received.length, 0);
+  } finally {
+    await stub.close();
+  }
+});
+
+test('records a dead letter after the last failed attempt', async () => {
+  const stub = await startStub(500);
+  try {
+    const deadLetters: any[] = [];
+    const dispatcher = new WebhookDispatcher(databaseWith([subscription(1, stub.url)], deadLetters), {
+      MAX_ATTEMPTS: 2,
+      RETRY_BASE_MS: 1
+    });
+
+    await dispatcher.dispatch(cycle('BUY', 0.9, true, true));
+    await dispatcher.flush();
+
+    assert.equal(stub.received.length, 2);
+    assert.equal(deadLetters.length, 1);
+    assert.equal(deadLetters[0].error, 'HTTP 500');
+    assert.equal(deadLetters[0].attempts, 2);
+  } finally {
+    await stub.close();
+  }
+});
@@ -0,0 +1,208 @@
+// src/services/WebhookDispatcher.ts
+import { createHmac } from 'crypto';
+import axios from 'axios';
+import { UpdateResult, WebhookSubscription, WebhookPayload, TokenUpdate, IDatabaseService, SignalTransition } from '../types/shared';
+
+interface WebhookConfig {
+  MAX_ATTEMPTS: number;
+  RETRY_BASE_MS: number;     // first retry delay, doubled each attempt
+  TIMEOUT_MS: number;
+}
+
+// A BUY/SELL transition still waiting for confirmation, and the subscriptions already sent it
+interface PendingTransition {
+  transition: SignalTransition;
+  notified: Set<number>;
+}
+
+export class WebhookDispatcher {
+  private static readonly DEFAULT_CONFIG: WebhookConfig = {
+    MAX_ATTEMPTS: 5,
+    RETRY_BASE_MS: 1000,
+    TIMEOUT_MS: 10000
+  };
+
+  private inFlight = new Set<Promise<void>>();
+  private pending = new Map<string, PendingTransition>();
+
+  constructor(
+    private databaseService: IDatabaseService,
+    private config: Partial<WebhookConfig> = {}
+  ) {
+    this.config = { ...WebhookDispatcher.DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Queue deliveries for BUY/SELL transitions. A transition stays open from
+   * the cycle it happens until the first cycle its direction is confirmed
+   * stable, and each subscription is sent it once, on the first of those
+   * cycles its filters match. Deliveries run in the background so a slow
+   * endpoint never delays the cycle.
+   */
+  async dispatch(result: Pick<UpdateResult, 'updates'>): Promise<number> {
+    const open: { update: TokenUpdate; notified: Set<number> }[] = [];
+
+    for (const update of result.updates) {
+      if (!update.signal) continue;
+
+      const { transition } = update;
+      if (transition) {
+        if (transition.to_direction === 'BUY' || transition.to_direction === 'SELL') {
+          this.pending.set(update.symbol, { transition, notified: new Set() });
+        } else {
+          this.pending.delete(update.symbol);
+        }
+      }
+
+      const pending = this.pending.get(update.symbol);
+      if (!pending) continue;
+
+      // Reverted before it was confirmed
+      if (update.signal.direction !== pending.transition.to_direction) {
+        this.pending.delete(update.symbol);
+        continue;
+      }
+
+      open.push({ update: { ...update, transition: pending.transition }, notified: pending.notified });
+      if (update.signal.stable) {
+        this.pending.delete(update.symbol);
+      }
+    }
+
+    if (open.length === 0) {
+      return 0;
+    }
+
+    const subscriptions = await this.databaseService.getWebhookSubscriptions();
+    let queued = 0;
+
+    for (const { update, notified } of open) {
+      const payload = this.buildPayload(update);
+
+      for (const subscription of subscriptions) {
+        if (notified.has(subscription.id!) || !this.matches(subscription, update)) continue;
+        notified.add(subscription.id!);
+
+        const delivery = this.deliverWithRetry(subscription, payload)
+          .finally(() => this.inFlight.delete(delivery));
+        this.inFlight.add(delivery);
+        queued++;
+      }
+    }
+
+    if (queued > 0) {
+      console.log(`🪝 Queued ${queued} webhook deliveries`);
+    }
+
+    return queued;
+  }
+
+  /**
+   * Check a subscription's filters against a token's update
+   */
+  matches(subscription: WebhookSubscription, update: TokenUpdate): boolean {
+    const { signal, transition } = update;
+    if (!signal || !transition) return false;
+
+    if (subscription.symbols.length > 0 && !subscription.symbols.includes(update.symbol)) {
+      return false;
+    }
+    if (!subscription.directions.includes(transition.to_direction as 'BUY' | 'SELL')) {
+      return false;
+    }
+    if (signal.confidence < subscription.min_confidence) {
+      return false;
+    }
+    if (subscription.stable_only && !signal.stable) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * POST a payload once. The body is signed with the subscription secret:
+   * X-Webhook-Signature = sha256 HMAC of `${timestamp}.${body}`.
+   */
+  async deliver(subscription: WebhookSubscription, payload: WebhookPayload): Promise<void> {
+    const body = JSON.stringify(payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    await axios.post(subscription.url, body, {
+      timeout: this.config.TIMEOUT_MS,
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'position-keeper-indicators',
+        'X-Webhook-Timestamp': timestamp,
+        'X-Webhook-Signature': `sha256=${WebhookDispatcher.sign(subscription.secret, timestamp, body)}`
+      }
+    });
+  }
+
+  static sign(secret: string, timestamp: string, body: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  /**
+   * Wait for in-flight deliveries (used on shutdown)
+   */
+  async flush(): Promise<void> {
+    await Promise.allSettled(Array.from(this.inFlight));
+  }
+
+  getStatistics(): { inFlight: number } {
+    return { inFlight: this.inFlight.size };
+  }
+
+  private async deliverWithRetry(subscription: WebhookSubscription, payload: WebhookPayload): Promise<void> {
+    let lastError = '';
+
+    for (let attempt = 1; attempt <= this.config.MAX_ATTEMPTS!; attempt++) {
+      try {
+        await this.deliver(subscription, payload);
+        console.log(`🪝 Delivered ${payload.symbol} ${payload.transition.to_direction} to webhook #${subscription.id}`);
+        return;
+      } catch (error) {
+        lastError = this.describeError(error);
+        console.warn(`⚠️  Webhook #${subscription.id} attempt ${attempt}/${this.config.MAX_ATTEMPTS} failed: ${lastError}`);
+
+        if (attempt < this.config.MAX_ATTEMPTS!) {
+          const delay = this.config.RETRY_BASE_MS! * Math.pow(2, attempt - 1);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+    }
+
+    try {
+      await this.databaseService.saveWebhookDeadLetter({
+        subscription_id: subscription.id!,
+        url: subscription.url,
+        payload,
+        error: lastError,
+        attempts: this.config.MAX_ATTEMPTS!,
+        failed_at: Math.floor(Date.now() / 1000)
+      });
+      console.error(`❌ Webhook #${subscription.id} gave up on ${payload.symbol}; recorded dead letter`);
+    } catch (error) {
+      console.error(`❌ Failed to record dead letter for webhook #${subscription.id}:`, error);
+    }
+  }
+
+  private buildPayload(update: TokenUpdate): WebhookPayload {
+    return {
+      event: 'signal.transition',
+      symbol: update.symbol,
+      transition: update.transition!,
+      signal: update.signal!,
+      indicators: update.indicators,
+      sent_at: Math.floor(Date.now() / 1000)
+    };
+  }
+
+  private describeError(error: unknown): string {
+    if (axios.isAxiosError(error)) {
+      return error.response ? `HTTP ${error.response.status}` : error.message;
+    }
+    return error instanceof Error ? error.message : 'Unknown error';
+  }
+}
@@ -0,0 +1,226 @@
+// src/services/WriteBuffer.ts
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { IDatabaseService, IndicatorData, SignalData, SignalTransition, TokenUpdate } from '../types/shared';
+import { DatabaseUnavailableError } from './DatabaseService';
+import { SignalGenerator } from './SignalGenerator';
+
+// The rows one update cycle writes
+export interface CycleWrites {
+  indicators: IndicatorData[];
+  signals: SignalData[];
+}
+
+interface BufferedCycle extends CycleWrites {
+  id: string;
+  queued_at: number;
+}
+
+export interface PersistResult {
+  buffered: boolean;
+  errors: string[];
+  transitions: (SignalTransition | null)[];   // aligned with CycleWrites.signals; empty when buffered
+}
+
+export interface ReplayResult {
+  replayed: number;
+  remaining: number;
+  updates: TokenUpdate[];   // replayed signal evaluations in cycle order, with the transitions they recorded
+}
+
+export interface WriteBufferStatistics {
+  depth: number;
+  oldestQueuedAt: string | null;
+  replaying: boolean;
+  replayed: number;
+  lastError: string | null;
+}
+
+/**
+ * Durable queue for cycle writes the database couldn't accept. A cycle is
+ * appended to a JSON-lines file when the store is unreachable, and replayed
+ * in order once it is back. While anything is queued, new cycles queue
+ * behind it so rows always land in cycle order. Writes are idempotent, so a
+ * cycle replayed twice (e.g. after a crash mid-replay) changes nothing.
+ * Transitions are only known once a cycle is written, so buffered cycles
+ * report none and replay() returns them instead.
+ */
+export class WriteBuffer {
+  // How often to try draining the queue
+  static readonly CHECK_INTERVAL_MS = 30 * 1000;
+
+  private queue: BufferedCycle[] = [];
+  private replaying = false;
+  private replayed = 0;
+  private lastError: string | null = null;
+
+  constructor(
+    private databaseService: IDatabaseService,
+    private filePath: string = process.env.WRITE_BUFFER_PATH || './data/write-buffer.jsonl'
+  ) {
+    this.load();
+  }
+
+  get depth(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Write a cycle's rows, or queue them if the store is unreachable or
+   * earlier cycles are still waiting
+   */
+  async persist(writes: CycleWrites): Promise<PersistResult> {
+    if (writes.indicators.length === 0 && writes.signals.length === 0) {
+      return { buffered: false, errors: [], transitions: [] };
+    }
+
+    if (this.queue.length > 0) {
+      this.append(writes);
+      return { buffered: true, errors: [], transitions: [] };
+    }
+
+    try {
+      return { buffered: false, ...(await this.apply(writes)) };
+    } catch (error) {
+      if (!(error instanceof DatabaseUnavailableError)) throw error;
+
+      this.lastError = error.message;
+      this.append(writes);
+      console.warn(`📦 Database unreachable, buffered cycle to disk (${this.queue.length} queued)`);
+      return { buffered: true, errors: [], transitions: [] };
+    }
+  }
+
+  /**
+   * Send queued cycles oldest first, stopping at the first one the store
+   * still can't take. Returns each replayed signal evaluation with the
+   * transition it recorded, rebuilt from the stored rows.
+   */
+  async replay(): Promise<ReplayResult> {
+    const summary: ReplayResult = { replayed: 0, remaining: this.queue.length, updates: [] };
+    if (this.replaying || this.queue.length === 0) {
+      return summary;
+    }
+
+    this.replaying = true;
+    try {
+      while (this.queue.length > 0) {
+        const entry = this.queue[0];
+
+        try {
+          const { errors, transitions } = await this.apply(entry);
+          errors.forEach(error => console.warn(`⚠️  Replayed write rejected for ${error}`));
+          summary.updates.push(...this.toUpdates(entry, transitions));
+        } catch (error) {
+          this.lastError = error instanceof Error ? error.message : 'Unknown error';
+          break;
+        }
+
+        this.queue.shift();
+        this.rewrite();
+        this.replayed++;
+        summary.replayed++;
+      }
+    } finally {
+      this.replaying = false;
+    }
+
+    summary.remaining = this.queue.length;
+    if (summary.remaining === 0) {
+      this.lastError = null;
+    }
+    return summary;
+  }
+
+  getStatistics(): WriteBufferStatistics {
+    return {
+      depth: this.queue.length,
+      oldestQueuedAt: this.queue.length > 0 ? new Date(this.queue[0].queued_at).toISOString() : null,
+      replaying: this.replaying,
+      replayed: this.replayed,
+      lastError: this.lastError
+    };
+  }
+
+  private async apply(writes: CycleWrites): Promise<{ errors: string[]; transitions: (SignalTransition | null)[] }> {
+    const indicators = await this.databaseService.bulkSaveIndicators(writes.indicators);
+    const signals = await this.databaseService.bulkSaveSignals(writes.signals);
+
+    return {
+      errors: [...indicators.errors, ...signals.errors],
+      transitions: signals.transitions
+    };
+  }
+
+  private toUpdates(writes: CycleWrites, transitions: (SignalTransition | null)[]): TokenUpdate[] {
+    return writes.signals.flatMap((row, i) => {
+      const indicators = writes.indicators.find(candidate => candidate.symbol === row.symbol);
+      if (!indicators) return [];
+
+      return [{
+        symbol: row.symbol,
+        indicators,
+        signal: SignalGenerator.toTrendSignal(row),
+        transition: transitions[i]
+      }];
+    });
+  }
+
+  private append(writes: CycleWrites): void {
+    const entry: BufferedCycle = {
+      id: randomUUID(),
+      queued_at: Date.now(),
+      indicators: writes.indicators,
+      signals: writes.signals
+    };
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const fd = fs.openSync(this.filePath, 'a');
+    try {
+      fs.writeSync(fd, JSON.stringify(entry) + '\n');
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    this.queue.push(entry);
+  }
+
+  /**
+   * Replace the file with what's still queued (write then rename, so a crash
+   * leaves either the old or the new queue)
+   */
+  private rewrite(): void {
+    if (this.queue.length === 0) {
+      fs.rmSync(this.filePath, { force: true });
+      return;
+    }
+
+    const temp = `${this.filePath}.tmp`;
+    fs.writeFileSync(temp, this.queue.map(entry => JSON.stringify(entry) + '\n').join(''));
+    fs.renameSync(temp, this.filePath);
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n').filter(line => line.trim().length > 0);
+    for (const line of lines) {
+      try {
+        const entry = JSON.parse(line) as BufferedCycle;
+        entry.indicators.forEach(row => {
+          row.timestamp = new Date(row.timestamp);
+        });
+        this.queue.push(entry);
+      } catch {
+        // A crash mid-append can leave a partial last line
+        console.warn(`⚠️  Skipping unreadable write buffer entry in ${this.filePath}`);
+      }
+    }
+
+    if (this.queue.length > 0) {
+      console.log(`📦 Loaded ${this.queue.length} buffered cycles from ${this.filePath}`);
+    }
+  }
+}
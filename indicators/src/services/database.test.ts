@@ -0,0 +1,431 @@
+// src/services/database.test.ts
+import { after, before, beforeEach, afterEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import Database from 'better-sqlite3';
+import { D1DatabaseService } from './D1DatabaseService';
+import { MaintenanceService } from './MaintenanceService';
+import { SqliteDatabaseService } from './SqliteDatabaseService';
+import { IDatabaseService, IndicatorData, SignalData, Trade } from '../types/shared';
+
+// Both backends run the same suite: SQLite in memory, and D1 against a local
+// stand-in for its HTTP query API backed by an in-memory SQLite database
+
+interface Backend {
+  name: string;
+  open(): Promise<{ db: IDatabaseService; close(): Promise<void> }>;
+}
+
+// The stub isn't Cloudflare; don't throttle requests to it
+process.env.D1_RATE_BURST = '1000';
+process.env.D1_RATE_PER_SECOND = '1000';
+
+interface D1Stub {
+  url: string;
+  // Commit the next batch, then answer 503 as if the response was lost
+  failAfterNextBatch(): void;
+  close(): Promise<void>;
+}
+
+async function startD1Stub(): Promise<D1Stub> {
+  const sqlite = new Database(':memory:');
+  let failAfterBatch = false;
+
+  const run = ({ sql, params = [] }: { sql: string; params?: any[] }) => {
+    const statement = sqlite.prepare(sql);
+    const values = params.map(value => value === undefined ? null : typeof value === 'boolean' ? (value ? 1 : 0) : value);
+
+    if (statement.reader) {
+      return { success: true, results: statement.all(...values) };
+    }
+
+    const info = statement.run(...values);
+    return { success: true, results: [], meta: { changes: info.changes, last_row_id: Number(info.lastInsertRowid) } };
+  };
+
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      res.setHeader('Content-Type', 'application/json');
+
+      if (req.headers.authorization !== 'Bearer test-token') {
+        res.writeHead(401).end(JSON.stringify({ success: false, errors: [{ message: 'Unauthorized' }] }));
+        return;
+      }
+
+      try {
+        const request = JSON.parse(body);
+        const result = request.batch
+          ? sqlite.transaction(() => request.batch.map(run))()
+          : [run(request)];
+
+        if (request.batch && failAfterBatch) {
+          failAfterBatch = false;
+          res.writeHead(503).end(JSON.stringify({ success: false, errors: [{ message: 'Service Unavailable' }] }));
+          return;
+        }
+
+        res.writeHead(200).end(JSON.stringify({ success: true, result }));
+      } catch (error) {
+        res.writeHead(200).end(JSON.stringify({ success: false, errors: [{ message: (error as Error).message }] }));
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/query`,
+    failAfterNextBatch: () => {
+      failAfterBatch = true;
+    },
+    close: async () => {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+      sqlite.close();
+    }
+  };
+}
+
+const backends: Backend[] = [
+  {
+    name: 'sqlite',
+    open: async () => {
+      const db = new SqliteDatabaseService(':memory:');
+      return { db, close: () => db.close() };
+    }
+  },
+  {
+    name: 'd1',
+    open: async () => {
+      const stub = await startD1Stub();
+      const db = new D1DatabaseService(stub.url, 'test-token');
+      return {
+        db,
+        close: async () => {
+          await db.close();
+          await stub.close();
+        }
+      };
+    }
+  }
+];
+
+const now = () => Math.floor(Date.now() / 1000);
+
+function indicators(symbol: string, timestamp: number, price: number): IndicatorData {
+  return {
+    symbol,
+    price,
+    native_price: price,
+    native_currency: 'SOL',
+    trading_currency: 'SOL',
+    currency_mismatch: 0,
+    rsi_1m: 55,
+    rsi_5m: 50,
+    rsi_15m: 45,
+    ema_1m: price,
+    ema_5m: price,
+    ema_15m: price,
+    ema_trend: 'BULLISH',
+    volume_24h: 1000,
+    market_cap: 100000,
+    volume_to_cap_ratio: 0.01,
+    trend_score: 0.5,
+    hourly_change_pct: 1.5,
+    drawdown_from_peak: 0,
+    volatility_pct: 2,
+    decimals: 9,
+    analysis_mode: 'full',
+    price_source: 'dexscreener',
+    timestamp: new Date(timestamp * 1000)
+  };
+}
+
+function signal(symbol: string, direction: string, evaluated: number, firstDetected: number = evaluated): SignalData {
+  return {
+    symbol,
+    direction,
+    confidence: 0.8,
+    reason: `${direction} test`,
+    stable: 1,
+    first_detected: firstDetected,
+    last_evaluated: evaluated,
+    expires_at: evaluated + 600
+  };
+}
+
+function trade(overrides: Partial<Trade> = {}): Trade {
+  return {
+    symbol: 'BONK',
+    strategy_type: 'early_exit',
+    buy_price: 1,
+    buy_timestamp: now() - 60,
+    amount_tokens: 100,
+    is_backtest: 0,
+    ...overrides
+  };
+}
+
+for (const backend of backends) {
+  describe(`${backend.name} backend`, () => {
+    let db: IDatabaseService;
+    let close: () => Promise<void>;
+
+    before(() => {
+      // Query logging is noise here
+      mock.method(console, 'log', () => {});
+    });
+
+    after(() => {
+      mock.restoreAll();
+    });
+
+    beforeEach(async () => {
+      ({ db, close } = await backend.open());
+      await db.initialize();
+    });
+
+    afterEach(async () => {
+      await close();
+    });
+
+    test('saves, lists and deletes tokens', async () => {
+      await db.saveToken({ symbol: 'BONK', pair: 'pair-1', mint: 'mint-1', active: true, notes: 'meme', metadata: { tradingCurrency: 'USDC' } });
+      await db.saveToken({ symbol: 'WIF', pair: 'pair-2', mint: 'mint-2', active: false });
+
+      assert.deepEqual((await db.getTokens()).map(token => token.symbol), ['BONK']);
+      assert.equal((await db.getTokens(false)).length, 2);
+
+      const [bonk] = await db.getTokens();
+      assert.equal(bonk.notes, 'meme');
+      assert.deepEqual(bonk.metadata, { tradingCurrency: 'USDC' });
+
+      await db.deleteToken('BONK');
+      assert.deepEqual((await db.getTokens(false)).map(token => token.symbol), ['WIF']);
+    });
+
+    test('round-trips indicators and signals', async () => {
+      const t = now() - 120;
+      await db.saveFullIndicators(indicators('BONK', t, 1));
+      await db.saveFullIndicators(indicators('BONK', t + 60, 2));
+      // A replayed row is ignored
+      await db.saveFullIndicators(indicators('BONK', t + 60, 3));
+
+      const [latest] = await db.getLatestIndicators('BONK');
+      assert.equal(latest.price, 2);
+      assert.equal(latest.timestamp.getTime(), (t + 60) * 1000);
+      assert.equal(latest.price_source, 'dexscreener');
+      assert.equal(latest.price_usd, undefined);
+
+      const history = await db.getIndicatorHistory('BONK', 1);
+      assert.deepEqual(history.map(row => row.price).sort(), [1, 2]);
+
+      assert.notEqual(await db.saveSignal(signal('BONK', 'BUY', t)), null);
+      // Continuing the same direction keeps first_detected
+      assert.equal(await db.saveSignal(signal('BONK', 'BUY', t + 60)), null);
+
+      const [active] = await db.getActiveSignals('BONK');
+      assert.equal(active.direction, 'BUY');
+      assert.equal(active.first_detected, t);
+      assert.equal(active.last_evaluated, t + 60);
+      assert.equal(active.stable, 1);
+    });
+
+    test('records transitions when the direction changes', async () => {
+      const t = now() - 180;
+      const first = await db.saveSignal(signal('BONK', 'BUY', t));
+      const second = await db.saveSignal(signal('BONK', 'SELL', t + 60));
+      // An evaluation older than the stored one is a replay
+      assert.equal(await db.saveSignal(signal('BONK', 'BUY', t + 30)), null);
+
+      assert.deepEqual(first && { from: first.from_direction, to: first.to_direction }, { from: null, to: 'BUY' });
+      assert.deepEqual(second && { from: second.from_direction, to: second.to_direction }, { from: 'BUY', to: 'SELL' });
+
+      const transitions = await db.getSignalTransitions('BONK', 1);
+      assert.deepEqual(transitions.map(row => [row.from_direction, row.to_direction]), [['BUY', 'SELL'], [null, 'BUY']]);
+
+      const active = await db.getActiveSignals();
+      assert.equal(active.length, 1);
+      assert.equal(active[0].direction, 'SELL');
+    });
+
+    test('bulk writes indicators and signals', async () => {
+      const t = now() - 60;
+      const symbols = Array.from({ length: 60 }, (_, i) => `TOKEN${i}`);
+
+      const saved = await db.bulkSaveIndicators(symbols.map((symbol, i) => indicators(symbol, t, i + 1)));
+      assert.deepEqual(saved, { saved: 60, failed: 0, errors: [] });
+      assert.equal((await db.getLatestIndicators()).length, 60);
+
+      await db.saveSignal(signal('TOKEN0', 'SELL', t - 60));
+      const signals = await db.bulkSaveSignals(symbols.map(symbol => signal(symbol, 'BUY', t)));
+      assert.equal(signals.saved, 60);
+      assert.equal(signals.failed, 0);
+      assert.equal(signals.transitions.length, 60);
+      assert.equal(signals.transitions[0]?.from_direction, 'SELL');
+      assert.equal(signals.transitions[1]?.from_direction, null);
+
+      // Replaying the same cycle changes nothing
+      const replayed = await db.bulkSaveSignals(symbols.map(symbol => signal(symbol, 'BUY', t)));
+      assert.ok(replayed.transitions.every(transition => transition === null));
+      assert.equal((await db.getSignalTransitions('TOKEN0', 1)).length, 2);
+
+      const stats = await db.getTokenStatistics();
+      assert.equal(stats.totalIndicators, 60);
+      assert.equal(stats.activeSignals, 60);
+    });
+
+    test('stores webhook subscriptions and dead letters', async () => {
+      const id = await db.saveWebhookSubscription({
+        url: 'https://example.com/hook',
+        secret: 's3cret',
+        symbols: ['BONK'],
+        directions: ['BUY'],
+        min_confidence: 0.7,
+        stable_only: true,
+        active: true
+      });
+      assert.equal(typeof id, 'number');
+
+      const [subscription] = await db.getWebhookSubscriptions();
+      assert.equal(subscription.id, id);
+      assert.deepEqual(subscription.symbols, ['BONK']);
+      assert.deepEqual(subscription.directions, ['BUY']);
+      assert.equal(subscription.stable_only, true);
+
+      await db.saveWebhookDeadLetter({
+        subscription_id: id,
+        url: subscription.url,
+        payload: { event: 'signal.transition', symbol: 'BONK' } as any,
+        error: 'HTTP 500',
+        attempts: 3,
+        failed_at: now()
+      });
+      const [deadLetter] = await db.getWebhookDeadLetters();
+      assert.equal(deadLetter.payload.symbol, 'BONK');
+      assert.equal(deadLetter.attempts, 3);
+
+      await db.deleteWebhookSubscription(id);
+      assert.equal((await db.getWebhookSubscriptions(false)).length, 0);
+    });
+
+    test('stores trades and strategies', async () => {
+      const strategyId = await db.saveStrategy({
+        wallet_address: 'wallet-1',
+        strategy_name: 'Quick exits',
+        strategy_type: 'early_exit',
+        parameters: { takeProfitPct: 5 },
+        active: true
+      });
+      const [strategy] = await db.getStrategies();
+      assert.equal(strategy.id, strategyId);
+      assert.deepEqual(strategy.parameters, { takeProfitPct: 5 });
+
+      const tradeId = await db.saveTrade(trade({ wallet_address: 'wallet-1', strategy_id: strategyId }));
+      await db.saveTrade(trade({ symbol: 'WIF', is_backtest: 1, backtest_id: 'bt-1' }));
+
+      const [open] = await db.getTrades({ isBacktest: false, openOnly: true });
+      assert.equal(open.id, tradeId);
+      assert.equal(open.strategy_id, strategyId);
+      assert.equal(open.sell_price, undefined);
+
+      // Closing updates the same row
+      await db.saveTrade({ ...open, sell_price: 1.1, sell_timestamp: now(), pnl_pct: 10 });
+      assert.equal((await db.getTrades({ openOnly: true, isBacktest: false })).length, 0);
+      assert.equal((await db.getTrades({ symbol: 'BONK' }))[0].pnl_pct, 10);
+      assert.deepEqual((await db.getTrades({ backtestId: 'bt-1' })).map(row => row.symbol), ['WIF']);
+
+      await db.saveStrategy({ ...strategy, active: false });
+      assert.equal((await db.getStrategies()).length, 0);
+      await db.deleteStrategy(strategyId);
+      assert.equal((await db.getStrategies(false)).length, 0);
+    });
+
+    test('rolls up rows written behind the rollup markers', async () => {
+      const maintenance = new MaintenanceService(db, { settleMinutes: 0 });
+      const candle = async (table: string) =>
+        (await (db as any).executeQuery(`SELECT high, samples FROM ${table} WHERE symbol = 'BONK'`))[0].results[0];
+
+      const day = Math.floor(now() / 86400) * 86400 - 2 * 86400;
+      await db.bulkSaveIndicators([1, 1.01, 1.014, 1.005, 1].map((price, i) => indicators('BONK', day + i * 60, price)));
+      await maintenance.runAll();
+      assert.deepEqual({ ...(await candle('candles_5m')) }, { high: 1.014, samples: 5 });
+
+      // A write buffer replay lands in the already rolled bucket
+      await db.bulkSaveIndicators([indicators('BONK', day + 30, 99)]);
+      const { candles } = await maintenance.runAll();
+      assert.ok(candles['5m'] > 0 && candles['1h'] > 0 && candles['1d'] > 0);
+
+      for (const table of ['candles_5m', 'candles_1h', 'candles_1d']) {
+        assert.deepEqual({ ...(await candle(table)) }, { high: 99, samples: 6 }, table);
+      }
+    });
+
+    test('keeps candles whose raw rows were pruned when a row lands behind them', async () => {
+      const maintenance = new MaintenanceService(db, { settleMinutes: 0, indicatorDays: 1 });
+      const candle = async (table: string) =>
+        (await (db as any).executeQuery(`SELECT high, samples FROM ${table} WHERE symbol = 'BONK'`))[0].results[0];
+
+      const day = Math.floor(now() / 86400) * 86400 - 3 * 86400;
+      await db.bulkSaveIndicators([1, 1.01, 1.014, 1.005, 1].map((price, i) => indicators('BONK', day + i * 60, price)));
+      // Rolls up, then prunes the raw rows
+      await maintenance.runAll();
+      assert.deepEqual(await db.getIndicatorHistory('BONK', 96), []);
+
+      await db.bulkSaveIndicators([indicators('BONK', day + 30, 99)]);
+      await maintenance.runAll();
+
+      for (const table of ['candles_5m', 'candles_1h', 'candles_1d']) {
+        assert.deepEqual({ ...(await candle(table)) }, { high: 1.014, samples: 5 }, table);
+      }
+    });
+
+    test('replaces pair candidates and drops them with the token', async () => {
+      const candidate = (pair_address: string, rank: number) => ({
+        symbol: 'BONK',
+        pair_address,
+        dex_id: 'raydium',
+        quote_currency: 'SOL',
+        liquidity_usd: 50000 / rank,
+        volume_24h: 1000,
+        score: 1 / rank,
+        rank,
+        discovered_at: now()
+      });
+
+      await db.saveToken({ symbol: 'BONK', pair: 'pool-a', mint: 'mint-1', active: true });
+      await db.savePairCandidates('BONK', [candidate('pool-b', 2), candidate('pool-a', 1)]);
+      assert.deepEqual((await db.getPairCandidates('BONK')).map(row => row.pair_address), ['pool-a', 'pool-b']);
+
+      await db.savePairCandidates('BONK', [candidate('pool-c', 1)]);
+      assert.deepEqual((await db.getPairCandidates('BONK')).map(row => row.pair_address), ['pool-c']);
+
+      await db.deleteToken('BONK');
+      assert.deepEqual(await db.getPairCandidates('BONK'), []);
+    });
+  });
+}
+
+test('d1: a signal batch that committed but failed is not duplicated by the retry', async () => {
+  const stub = await startD1Stub();
+  const db = new D1DatabaseService(stub.url, 'test-token');
+  const log = mock.method(console, 'log', () => {});
+  try {
+    await db.initialize();
+    const t = now() - 120;
+    await db.saveSignal(signal('BONK', 'BUY', t));
+
+    stub.failAfterNextBatch();
+    await db.saveSignal(signal('BONK', 'SELL', t + 60));
+
+    assert.deepEqual((await db.getSignalTransitions('BONK', 1)).map(row => row.to_direction), ['SELL', 'BUY']);
+    assert.equal((await db.getSignalHistory('BONK', 1)).length, 2);
+  } finally {
+    log.mock.restore();
+    await db.close();
+    await stub.close();
+  }
+});
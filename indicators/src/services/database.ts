@@ -0,0 +1,20 @@
+// src/services/database.ts
+import { IDatabaseService } from '../types/shared';
+import { D1DatabaseService } from './D1DatabaseService';
+import { SqliteDatabaseService } from './SqliteDatabaseService';
+
+export type DatabaseBackend = 'd1' | 'sqlite';
+
+/**
+ * The storage backend selected by DATABASE_BACKEND (default d1)
+ */
+export function createDatabaseService(backend: string = process.env.DATABASE_BACKEND || 'd1'): IDatabaseService {
+  switch (backend.toLowerCase()) {
+    case 'd1':
+      return new D1DatabaseService();
+    case 'sqlite':
+      return new SqliteDatabaseService();
+    default:
+      throw new Error(`Unknown DATABASE_BACKEND "${backend}" (expected d1 or sqlite)`);
+  }
+}
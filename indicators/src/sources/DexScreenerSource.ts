@@ -0,0 +1,168 @@
+// src/sources/DexScreenerSource.ts
+import axios from 'axios';
+import { DexScreenerPair, TokenConfig } from '../types/shared';
+import { PriceReading, PriceSource } from './PriceSource';
+import { rateLimiter } from '../services/RateLimiter';
+import { resilience } from '../services/Resilience';
+
+export class DexScreenerSource implements PriceSource {
+  readonly name = 'dexscreener';
+  readonly keyedBy = 'pair' as const;
+
+  async fetchPrice(token: TokenConfig, pairAddress: string = token.pair): Promise<PriceReading> {
+    const url = `https://api.dexscreener.com/latest/dex/pairs/solana/${pairAddress}`;
+    
+    try {
+      const response = await resilience().execute(url, timeout => rateLimiter('dexscreener').schedule(() => axios.get(url, {
+        timeout,
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+          'Accept': 'application/json',
+        }
+      })));
+      
+      // Enhanced response validation
+      if (!response.data) {
+        throw new Error(`Empty response from DexScreener for pair ${pairAddress}`);
+      }
+
+      const pairData = response.data?.pair;
+
+      if (!pairData) {
+        // Check if there are pairs in the array format
+        if (response.data?.pairs && Array.isArray(response.data.pairs) && response.data.pairs.length > 0) {
+          const firstPair = response.data.pairs[0];
+          return this.parsePairData(firstPair);
+        }
+
+        throw new Error(`No pair data returned from DexScreener for pair ${pairAddress}`);
+      }
+
+      return this.parsePairData(pairData);
+
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        // More specific error messages
+        if (error.response?.status === 404) {
+          throw new Error(`Pair ${pairAddress} not found on DexScreener (404)`);
+        } else if (error.response?.status === 429) {
+          throw new Error(`DexScreener rate limit exceeded (429) - retrying later`);
+        } else if (error.response?.status >= 500) {
+          throw new Error(`DexScreener server error (${error.response.status}) - service may be down`);
+        } else {
+          throw new Error(`DexScreener API error: ${error.response?.status} - ${JSON.stringify(error.response?.data)}`);
+        }
+      }
+      
+      throw error;
+    }
+  }
+
+  // DexScreener accepts up to 30 comma-separated pair addresses per request
+  static readonly BATCH_SIZE = 30;
+
+  async fetchBatch(tokens: TokenConfig[]): Promise<Map<string, PriceReading | null>> {
+    const readings = new Map<string, PriceReading | null>();
+
+    for (let i = 0; i < tokens.length; i += DexScreenerSource.BATCH_SIZE) {
+      const chunk = tokens.slice(i, i + DexScreenerSource.BATCH_SIZE);
+      const url = `https://api.dexscreener.com/latest/dex/pairs/solana/${chunk.map(token => token.pair).join(',')}`;
+
+      try {
+        const response = await resilience().execute(url, timeout => rateLimiter('dexscreener').schedule(() => axios.get(url, {
+          timeout,
+          headers: {
+            'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+            'Accept': 'application/json',
+          }
+        })));
+
+        const pairs: any[] = response.data?.pairs || (response.data?.pair ? [response.data.pair] : []);
+        const byAddress = new Map<string, any>();
+        pairs.forEach(pair => {
+          if (pair?.pairAddress) byAddress.set(pair.pairAddress.toLowerCase(), pair);
+        });
+
+        for (const token of chunk) {
+          const pair = byAddress.get(token.pair.toLowerCase());
+          try {
+            readings.set(token.symbol, pair ? this.parsePairData(pair) : null);
+          } catch (error) {
+            readings.set(token.symbol, null);
+          }
+        }
+
+      } catch (error) {
+        // Leave the chunk out so its tokens are fetched individually
+        const reason = axios.isAxiosError(error) ? error.response?.status ?? error.message : error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`⚠️  [DexScreener] Batch of ${chunk.length} pairs failed (${reason})`);
+      }
+    }
+
+    return readings;
+  }
+
+  /**
+   * Every Solana pool DexScreener lists for a mint, on either side of the pair
+   */
+  async fetchTokenPairs(mint: string): Promise<DexScreenerPair[]> {
+    const url = `https://api.dexscreener.com/latest/dex/tokens/${mint}`;
+
+    try {
+      const response = await resilience().execute(url, timeout => rateLimiter('dexscreener').schedule(() => axios.get(url, {
+        timeout,
+        headers: {
+          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+          'Accept': 'application/json',
+        }
+      })));
+
+      const pairs: DexScreenerPair[] = Array.isArray(response.data?.pairs) ? response.data.pairs : [];
+      return pairs.filter(pair => pair.chainId === 'solana');
+
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 429) {
+          throw new Error(`DexScreener rate limit exceeded (429) - retrying later`);
+        }
+        throw new Error(`DexScreener tokens API error: ${error.response?.status ?? error.message}`);
+      }
+
+      throw error;
+    }
+  }
+
+  private parsePairData(pairData: any): PriceReading {
+    const priceUsd = parseFloat(pairData?.priceUsd);
+    const result: PriceReading = {
+      price: this.parseFloat(pairData?.priceNative, 'priceNative'),
+      priceUsd: priceUsd > 0 ? priceUsd : undefined,
+      volume: this.parseFloat(pairData?.volume?.h24?.toString(), 'volume.h24'),
+      marketCap: this.parseFloat(pairData?.marketCap?.toString() || pairData?.fdv?.toString(), 'marketCap/fdv'),
+      quoteToken: pairData?.quoteToken?.symbol || 'SOL',
+      source: this.name
+    };
+
+    // Validate critical fields
+    if (result.price <= 0) {
+      throw new Error(`Invalid price data: ${pairData?.priceNative}`);
+    }
+
+    return result;
+  }
+
+  private parseFloat(value: string | undefined, fieldName: string): number {
+    if (!value) {
+      console.warn(`[DexScreener] Missing ${fieldName}, using 0`);
+      return 0;
+    }
+    
+    const parsed = parseFloat(value);
+    if (isNaN(parsed)) {
+      console.warn(`[DexScreener] Invalid ${fieldName}: "${value}", using 0`);
+      return 0;
+    }
+    
+    return parsed;
+  }
+}
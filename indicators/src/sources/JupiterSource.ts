@@ -0,0 +1,57 @@
+// src/sources/JupiterSource.ts
+import axios from 'axios';
+import { TokenConfig } from '../types/shared';
+import { PriceReading, PriceSource } from './PriceSource';
+import { rateLimiter } from '../services/RateLimiter';
+import { resilience } from '../services/Resilience';
+
+export const WRAPPED_SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+/**
+ * Jupiter price API, keyed by mint. Prices are quoted against wrapped SOL by
+ * default; Jupiter has no volume or market-cap data so those read as 0.
+ */
+export class JupiterSource implements PriceSource {
+  readonly name = 'jupiter';
+  readonly keyedBy = 'mint' as const;
+
+  constructor(
+    private baseUrl: string = process.env.JUPITER_PRICE_URL || 'https://lite-api.jup.ag/price/v2',
+    private vsToken: { mint: string; symbol: string } = { mint: WRAPPED_SOL_MINT, symbol: 'SOL' }
+  ) {}
+
+  async fetchPrice(token: TokenConfig): Promise<PriceReading> {
+    try {
+      const response = await resilience().execute(this.baseUrl, timeout => rateLimiter('jupiter').schedule(() => axios.get(this.baseUrl, {
+        timeout,
+        params: { ids: token.mint, vsToken: this.vsToken.mint },
+        headers: { 'Accept': 'application/json' }
+      })));
+
+      const entry = response.data?.data?.[token.mint];
+      const price = entry ? parseFloat(entry.price) : NaN;
+
+      if (!entry || isNaN(price) || price <= 0) {
+        throw new Error(`No Jupiter price for mint ${token.mint}`);
+      }
+
+      return {
+        price,
+        volume: 0,
+        marketCap: 0,
+        quoteToken: this.vsToken.symbol,
+        source: this.name
+      };
+
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        if (error.response?.status === 429) {
+          throw new Error(`Jupiter rate limit exceeded (429)`);
+        }
+        throw new Error(`Jupiter price API error: ${error.response?.status ?? error.message}`);
+      }
+
+      throw error;
+    }
+  }
+}
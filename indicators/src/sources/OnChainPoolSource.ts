@@ -0,0 +1,117 @@
+// src/sources/OnChainPoolSource.ts
+import { Connection, PublicKey } from '@solana/web3.js';
+import { TokenConfig } from '../types/shared';
+import { PriceReading, PriceSource } from './PriceSource';
+import { WRAPPED_SOL_MINT } from './JupiterSource';
+import { createConnection } from './rpc';
+import { POOL_DECODERS, PoolDecoder, PoolState, quotePerBase, requiredAccounts } from './pools';
+
+// Symbols for common quote mints
+const KNOWN_QUOTES: Record<string, string> = {
+  [WRAPPED_SOL_MINT]: 'SOL',
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v': 'USDC',
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB': 'USDT'
+};
+
+/**
+ * Reads a token's pool account directly from the RPC and computes the spot
+ * price, so readings don't depend on an indexer. Pools are decoded by their
+ * owning program (Raydium AMM v4, Orca Whirlpool, Meteora DLMM).
+ */
+export class OnChainPoolSource implements PriceSource {
+  readonly name = 'onchain';
+  readonly keyedBy = 'pair' as const;
+
+  private connection: Connection;
+  private decoders = new Map<string, PoolDecoder>();
+
+  constructor(rpcUrl: string = process.env.QUICKNODE_URL || '', decoders: PoolDecoder[] = POOL_DECODERS) {
+    this.connection = createConnection(rpcUrl);
+    decoders.forEach(decoder => this.registerDecoder(decoder));
+  }
+
+  registerDecoder(decoder: PoolDecoder): void {
+    this.decoders.set(decoder.programId, decoder);
+  }
+
+  async fetchPrice(token: TokenConfig, pairAddress: string = token.pair): Promise<PriceReading> {
+    const account = await this.connection.getAccountInfo(new PublicKey(pairAddress));
+    if (!account) {
+      throw new Error(`Pool account ${pairAddress} not found on chain`);
+    }
+
+    const decoder = this.decoder(account.owner.toBase58(), pairAddress);
+    const pool = decoder.decode(account.data);
+
+    // Vaults and/or mints, fetched in one round trip
+    const addresses = requiredAccounts(pool);
+    const infos = addresses.length > 0
+      ? await this.connection.getMultipleAccountsInfo(addresses.map(address => new PublicKey(address)))
+      : [];
+
+    const accounts = new Map<string, Buffer>();
+    infos.forEach((info, i) => {
+      if (info) accounts.set(addresses[i], info.data);
+    });
+
+    return this.reading(token, pairAddress, decoder, pool, accounts);
+  }
+
+  /**
+   * Price a token from already-fetched account data: the pool account's
+   * owner and data plus every account requiredAccounts() asks for.
+   * Performs no I/O, so captured accounts can be replayed offline.
+   */
+  priceFromAccounts(
+    token: TokenConfig,
+    pairAddress: string,
+    owner: string,
+    poolData: Buffer,
+    accounts: Map<string, Buffer>
+  ): PriceReading {
+    const decoder = this.decoder(owner, pairAddress);
+    return this.reading(token, pairAddress, decoder, decoder.decode(poolData), accounts);
+  }
+
+  /**
+   * Express a pool's quote-per-base price in terms of the token's mint,
+   * inverting when the token is the pool's quote side
+   */
+  static priceForMint(pool: PoolState, mint: string, quotePerBase: number): number {
+    if (pool.baseMint === mint) return quotePerBase;
+    if (pool.quoteMint === mint) return 1 / quotePerBase;
+    throw new Error(`Pool does not contain mint ${mint}`);
+  }
+
+  private reading(
+    token: TokenConfig,
+    pairAddress: string,
+    decoder: PoolDecoder,
+    pool: PoolState,
+    accounts: Map<string, Buffer>
+  ): PriceReading {
+    const price = OnChainPoolSource.priceForMint(pool, token.mint, quotePerBase(pool, accounts));
+
+    if (!(price > 0) || !isFinite(price)) {
+      throw new Error(`Invalid on-chain price for ${token.symbol} from ${decoder.dex} pool ${pairAddress}`);
+    }
+
+    const quoteMint = pool.baseMint === token.mint ? pool.quoteMint : pool.baseMint;
+
+    return {
+      price,
+      volume: 0,
+      marketCap: 0,
+      quoteToken: KNOWN_QUOTES[quoteMint] || quoteMint,
+      source: this.name
+    };
+  }
+
+  private decoder(owner: string, pairAddress: string): PoolDecoder {
+    const decoder = this.decoders.get(owner);
+    if (!decoder) {
+      throw new Error(`Unsupported pool program ${owner} for ${pairAddress}`);
+    }
+    return decoder;
+  }
+}
@@ -0,0 +1,25 @@
+// src/sources/PriceSource.ts
+import { TokenConfig } from '../types/shared';
+
+export interface PriceReading {
+  price: number;
+  volume: number;
+  marketCap: number;
+  priceUsd?: number;        // USD price per token, when the source reports one
+  quoteToken: string;
+  source: string;           // name of the PriceSource that produced the reading
+}
+
+export interface PriceSource {
+  readonly name: string;
+  // 'pair' sources read a specific pool and can fall back across pair addresses
+  readonly keyedBy: 'pair' | 'mint';
+  fetchPrice(token: TokenConfig, pairAddress?: string): Promise<PriceReading>;
+  // Optional: read many tokens' configured pairs at once, keyed by symbol.
+  // A null entry means the request succeeded but the pair was missing;
+  // tokens in failed requests are left out entirely.
+  fetchBatch?(tokens: TokenConfig[]): Promise<Map<string, PriceReading | null>>;
+}
+
+// Batched readings for one cycle: source name -> symbol -> reading
+export type BatchedReadings = Map<string, Map<string, PriceReading | null>>;
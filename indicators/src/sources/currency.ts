@@ -0,0 +1,51 @@
+// src/sources/currency.ts
+import { TokenConfig, TradingCurrency } from '../types/shared';
+import { PriceReading } from './PriceSource';
+
+export const TRADING_CURRENCIES: TradingCurrency[] = ['SOL', 'USDC', 'USD'];
+
+/**
+ * Canonical currency symbol for a quote token (wrapped SOL is SOL)
+ */
+export function normalizeCurrency(symbol: string | undefined): string {
+  const upper = (symbol || '').trim().toUpperCase();
+  return upper === 'WSOL' ? 'SOL' : upper;
+}
+
+export function isTradingCurrency(value: any): value is TradingCurrency {
+  return TRADING_CURRENCIES.includes(normalizeCurrency(value) as TradingCurrency);
+}
+
+/**
+ * DEFAULT_TRADING_CURRENCY, if set to a trading currency
+ */
+export function defaultTradingCurrency(): TradingCurrency | undefined {
+  const configured = process.env.DEFAULT_TRADING_CURRENCY;
+  return isTradingCurrency(configured) ? normalizeCurrency(configured) as TradingCurrency : undefined;
+}
+
+/**
+ * A token's trading currency: metadata.tradingCurrency, else the configured
+ * default, else the quote currency of its configured pair (from
+ * metadata.routing) when that is SOL or USDC, else SOL
+ */
+export function tradingCurrencyFor(token: TokenConfig, fallback?: TradingCurrency): TradingCurrency {
+  const configured = token.metadata?.tradingCurrency;
+  if (isTradingCurrency(configured)) return normalizeCurrency(configured) as TradingCurrency;
+  if (fallback) return fallback;
+
+  const quoted = normalizeCurrency(token.metadata?.routing?.nativeCurrency);
+  return quoted === 'SOL' || quoted === 'USDC' ? quoted : 'SOL';
+}
+
+/**
+ * Express a reading in the trading currency, or null when it can't be:
+ * USD needs the source's USD price, SOL and USDC need a pair quoted in that
+ * currency. Readings are never converted across quote currencies.
+ */
+export function priceInCurrency(reading: PriceReading, currency: TradingCurrency): number | null {
+  if (currency === 'USD') {
+    return reading.priceUsd && reading.priceUsd > 0 ? reading.priceUsd : null;
+  }
+  return normalizeCurrency(reading.quoteToken) === currency ? reading.price : null;
+}
@@ -0,0 +1,40 @@
+// src/sources/index.ts
+import { DexScreenerSource } from './DexScreenerSource';
+import { JupiterSource } from './JupiterSource';
+import { OnChainPoolSource } from './OnChainPoolSource';
+import { PriceSource } from './PriceSource';
+
+export type { BatchedReadings, PriceReading, PriceSource } from './PriceSource';
+export {
+  TRADING_CURRENCIES,
+  normalizeCurrency,
+  isTradingCurrency,
+  defaultTradingCurrency,
+  tradingCurrencyFor,
+  priceInCurrency
+} from './currency';
+export { DexScreenerSource } from './DexScreenerSource';
+export { JupiterSource, WRAPPED_SOL_MINT } from './JupiterSource';
+export { OnChainPoolSource } from './OnChainPoolSource';
+export {
+  POOL_DECODERS,
+  raydiumAmmDecoder,
+  orcaWhirlpoolDecoder,
+  meteoraDlmmDecoder,
+  quotePerBase,
+  requiredAccounts
+} from './pools';
+export type { PoolDecoder, PoolState } from './pools';
+
+/**
+ * All available price sources by name
+ */
+export function createPriceSources(): Map<string, PriceSource> {
+  const sources: PriceSource[] = [
+    new DexScreenerSource(),
+    new JupiterSource(),
+    new OnChainPoolSource()
+  ];
+
+  return new Map(sources.map(source => [source.name, source]));
+}
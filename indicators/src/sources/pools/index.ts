@@ -0,0 +1,70 @@
+// src/sources/pools/index.ts
+import { PoolDecoder, PoolState } from './types';
+import { raydiumAmmDecoder } from './raydium';
+import { orcaWhirlpoolDecoder } from './orca';
+import { meteoraDlmmDecoder } from './meteora';
+
+export type { PoolDecoder, PoolState } from './types';
+export { raydiumAmmDecoder } from './raydium';
+export { orcaWhirlpoolDecoder } from './orca';
+export { meteoraDlmmDecoder } from './meteora';
+
+export const POOL_DECODERS: PoolDecoder[] = [raydiumAmmDecoder, orcaWhirlpoolDecoder, meteoraDlmmDecoder];
+
+// SPL token layouts: Mint.decimals at 44, Account.amount at 64
+export function readMintDecimals(mintData: Buffer): number {
+  return mintData.readUInt8(44);
+}
+
+export function readTokenAmount(accountData: Buffer): bigint {
+  return accountData.readBigUInt64LE(64);
+}
+
+/**
+ * Accounts besides the pool that are needed to price it
+ */
+export function requiredAccounts(pool: PoolState): string[] {
+  const accounts: string[] = [];
+
+  if (pool.reserves) {
+    accounts.push(pool.reserves.baseVault, pool.reserves.quoteVault);
+  }
+  if (pool.baseDecimals === undefined) accounts.push(pool.baseMint);
+  if (pool.quoteDecimals === undefined) accounts.push(pool.quoteMint);
+
+  return accounts;
+}
+
+/**
+ * Spot price in quote units per base unit, decimals-adjusted.
+ * `accounts` holds the data for every address from requiredAccounts().
+ */
+export function quotePerBase(pool: PoolState, accounts: Map<string, Buffer>): number {
+  const account = (address: string): Buffer => {
+    const data = accounts.get(address);
+    if (!data) throw new Error(`Missing account data for ${address}`);
+    return data;
+  };
+
+  const baseDecimals = pool.baseDecimals ?? readMintDecimals(account(pool.baseMint));
+  const quoteDecimals = pool.quoteDecimals ?? readMintDecimals(account(pool.quoteMint));
+  const decimalAdjustment = Math.pow(10, baseDecimals - quoteDecimals);
+
+  if (pool.reserves) {
+    const base = readTokenAmount(account(pool.reserves.baseVault)) - pool.reserves.baseOffset;
+    const quote = readTokenAmount(account(pool.reserves.quoteVault)) - pool.reserves.quoteOffset;
+    return (Number(quote) / Number(base)) * decimalAdjustment;
+  }
+
+  if (pool.sqrtPriceX64 !== undefined) {
+    const sqrtPrice = Number(pool.sqrtPriceX64) / Math.pow(2, 64);
+    return sqrtPrice * sqrtPrice * decimalAdjustment;
+  }
+
+  if (pool.activeBin) {
+    const { activeId, binStep } = pool.activeBin;
+    return Math.pow(1 + binStep / 10000, activeId) * decimalAdjustment;
+  }
+
+  throw new Error(`${pool.dex} pool has no pricing data`);
+}
@@ -0,0 +1,25 @@
+// src/sources/pools/meteora.ts
+import { PublicKey } from '@solana/web3.js';
+import { PoolDecoder, PoolState } from './types';
+
+// Meteora DLMM LbPair (Anchor account)
+export const meteoraDlmmDecoder: PoolDecoder = {
+  dex: 'meteora',
+  programId: 'LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo',
+  decode(data: Buffer): PoolState {
+    if (data.length < 216) {
+      throw new Error(`Meteora DLMM account too short (${data.length} bytes)`);
+    }
+
+    // active_id i32 at 76, bin_step u16 at 80; token X/Y mints at 88 and 120
+    return {
+      dex: 'meteora',
+      baseMint: new PublicKey(data.subarray(88, 120)).toBase58(),
+      quoteMint: new PublicKey(data.subarray(120, 152)).toBase58(),
+      activeBin: {
+        activeId: data.readInt32LE(76),
+        binStep: data.readUInt16LE(80)
+      }
+    };
+  }
+};
@@ -0,0 +1,24 @@
+// src/sources/pools/orca.ts
+import { PublicKey } from '@solana/web3.js';
+import { PoolDecoder, PoolState } from './types';
+
+// Orca Whirlpool (Anchor account, 653 bytes including the discriminator)
+export const orcaWhirlpoolDecoder: PoolDecoder = {
+  dex: 'orca',
+  programId: 'whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc',
+  decode(data: Buffer): PoolState {
+    if (data.length < 245) {
+      throw new Error(`Orca Whirlpool account too short (${data.length} bytes)`);
+    }
+
+    // sqrt_price is a u128 at offset 65; mints A and B at 101 and 181
+    const sqrtPriceX64 = data.readBigUInt64LE(65) + (data.readBigUInt64LE(73) << 64n);
+
+    return {
+      dex: 'orca',
+      baseMint: new PublicKey(data.subarray(101, 133)).toBase58(),
+      quoteMint: new PublicKey(data.subarray(181, 213)).toBase58(),
+      sqrtPriceX64
+    };
+  }
+};
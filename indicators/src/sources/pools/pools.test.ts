@@ -0,0 +1,190 @@
+// src/sources/pools/pools.test.ts
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PublicKey } from '@solana/web3.js';
+import {
+  meteoraDlmmDecoder,
+  orcaWhirlpoolDecoder,
+  quotePerBase,
+  raydiumAmmDecoder,
+  requiredAccounts
+} from './index';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+function assertClose(actual: number, expected: number, relative: number = 1e-9): void {
+  assert.ok(Math.abs(actual - expected) <= Math.abs(expected) * relative, `${actual} is not within ${relative} of ${expected}`);
+}
+
+// Account dumps encoded with the published layouts rather than the decoders'
+// offsets: Raydium's LIQUIDITY_STATE_LAYOUT_V4, the Whirlpool and LbPair IDLs
+// (with their Anchor discriminators) and the SPL Mint and Account layouts.
+// Mints are the real ones; pool, vault and other account keys are placeholders.
+
+function dump(...lines: string[]): Buffer {
+  return Buffer.from(lines.join(''), 'base64');
+}
+
+// Raydium SOL/USDC, 35,800 SOL and 5,370,000 USDC after pending PnL
+const RAYDIUM_SOL_USDC = dump(
+  'BgAAAAAAAAD+AAAAAAAAAAcAAAAAAAAAAwAAAAAAAAAJAAAAAAAAAAYAAAAAAAAAAQAAAAAAAAAAAAAAAAAAAEBCDwAAAAAA',
+  '9AEAAAAAAABAS0wAAAAAAEBCDwAAAAAAQEIPAAAAAAABAAAAAAAAAADKmjsAAAAAAMqaOwAAAAAFAAAAAAAAABAnAAAAAAAA',
+  'GQAAAAAAAAAQJwAAAAAAAAwAAAAAAAAAZAAAAAAAAAAZAAAAAAAAABAnAAAAAAAA9RPMRwAAAACEfu4KAAAAAEOEaAEWAAAA',
+  'ej2pbIwAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAGeHC4vqfiABAAAAAAAAAAAHmfiH0BAjAAAAAAAAAAAA',
+  'EMhMKXEWAABsqxBaRzcjAAAAAAAAAAAAdGcznFqwHwEAAAAAAAAAAA99T/IeuAAANnehzcwoJQMYfdC3FtogOf4PsBdYa743',
+  'Y9Tz4DL2xph7T7krgQ/fmme7S5aPlgWjbjKwKpLU8NCsSmNjJQmfmQabiFf+q4GE+2h/Y0YYwDXaxDncGus7VZig8AAAAAAB',
+  'xvp6877brTo9ZfNqq8l0MbG75MLS9uDkfKYCA0UvXWHYZpIRXFI90sNIScY/WyFqzGfQGlrUBlmHeyUxEWF/LgNVCsK43GQN',
+  'bhA/wBHRT52gz+7BekPiJu1fSKMNhBGymjRsgbWkt2vJZNKPdPByH0icaL7tCAgMCopu8YuOKzgNB1GoKC2mEwX+KZw3uZjl',
+  'hHHbETUDcxD4vhBFpgr27tFv2TKYXwiSfRwzPhFH+wxSdXSvbpRVtu+h8rh429LfAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAOW2K2XLO72m9WiI5m/ujmTcVWAZnA+IsR/ic70Fnoqh',
+  'GsTRjl4mAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA='
+);
+
+const RAYDIUM_BASE_VAULT = dump(
+  'BpuIV/6rgYT7aH9jRhjANdrEOdwa6ztVmKDwAAAAAAFBV7BYDzHF/ORKYlgtvPnXjudZQ6CEo5OzUDaNIomTCPWDFJ6PIAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAQEAAADwHR8AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAA'
+);
+
+const RAYDIUM_QUOTE_VAULT = dump(
+  'xvp6877brTo9ZfNqq8l0MbG75MLS9uDkfKYCA0UvXWFBV7BYDzHF/ORKYlgtvPnXjudZQ6CEo5OzUDaNIomTCITC31fiBAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAA'
+);
+
+// Orca SOL/USDC whirlpool, tick spacing 4, at tick -18973
+const ORCA_SOL_USDC = dump(
+  'P5XRDOGAYwkT5EH4ORPKaLBjT7Al/eqohzfoQRDRJV41ezN33e4czf8EAAQAkAEUBcCGM7tTXwAAAAAAAAAAAAAEH8n90Psl',
+  'YwAAAAAAAAAA47X//8WKxUwAAAAA65ZWCwAAAAAGm4hX/quBhPtof2NGGMA12sQ53BrrO1WYoPAAAAAAAbL0liLIHdp3Ygou',
+  'z+ehVFaqloK5a9RR6wYpX0XTXRLp4ibat4xxTisAAAAAAAAAAMb6evO+2606PWXzaqvJdDGxu+TC0vbg5HymAgNFL11hm4nO',
+  'uDxGLyjjDHwUmBe3d+VGhTCJZJn7LEgeEmXFaFO/5bcps5hmBgAAAAAAAAAA4FPUagAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAA='
+);
+
+// Meteora BONK/SOL, bin step 80 at active bin -831
+const METEORA_BONK_SOL = dump(
+  'IQsxYrVlsQ0QJx4AWAKIE0wdAADwSQIAV+r//6kVAAD0AQAAAAAAAOAuAABAHwAAw/z//wAAAABoU9RqAAAAAAAAAAAAAAAA',
+  '/VAAAMH8//9QAAAAAAAAALwHxW5grT0/F3OC6sZUj7of0yz9kMoCs+fPoYX9znOYBpuIV/6rgYT7aH9jRhjANdrEOdwa6ztV',
+  'mKDwAAAAAAE8ObsR2jydxIEzuzwpLF8wxxe4yr+5uenmKyuNuGj2XAIOEGOAroHF7hI6Qj93l1vCVTXHd1Fyjc4jIsuA7Gww',
+  'lZ/+HAcAAADbJ5wYAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAQPnnxBQq7Qed7DmRI98cqHHPqkBKVYL4',
+  'D4ViPhfHWJ4AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA+AXsMGsvEQ7uN8voKQciE',
+  'tqhspaRr7jl1QIjPxG/LRQAAAQAAAAAAAAAAAAAAAAAAAAAAAAAAAA=='
+);
+
+const SOL_MINT = dump(
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAJAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAA=='
+);
+
+const USDC_MINT = dump(
+  'AQAAAJj+huiNm+Lqi8HMpIeLKYjCQPUrhCS/tA7Rot3LXhmb5dTy0xmhIAAGAQEAAABicKqKWcWUBbRShshncubNEm6bil06',
+  'OFNtN/e0FWHNww=='
+);
+
+const BONK_MINT = dump(
+  'AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAdX+Bm0cDTXoFAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA',
+  'AAAAAAAAAAAAAA=='
+);
+
+// Edge cases below are built field by field at the decoders' offsets
+
+function writeKey(data: Buffer, offset: number, address: string): void {
+  new PublicKey(address).toBuffer().copy(data, offset);
+}
+
+function mintAccount(decimals: number): Buffer {
+  const data = Buffer.alloc(82);
+  data.writeUInt8(decimals, 44);
+  return data;
+}
+
+test('Raydium AMM v4: SOL/USDC from its vault accounts', () => {
+  const pool = raydiumAmmDecoder.decode(RAYDIUM_SOL_USDC);
+  assert.equal(pool.dex, 'raydium');
+  assert.equal(pool.baseMint, SOL);
+  assert.equal(pool.quoteMint, USDC);
+  assert.equal(pool.baseDecimals, 9);
+  assert.equal(pool.quoteDecimals, 6);
+  assert.deepEqual(pool.reserves, {
+    baseVault: '4fcpVfsQWavvNxvGzHhbZuwNPtiigydZUoYA8KpY1WF9',
+    quoteVault: '9JMexrFfRPYQg15HB448n3EzYKP5sWgVgrjP33b9jaKJ',
+    baseOffset: 1_204_556_789n,
+    quoteOffset: 183_402_116n
+  });
+  assert.deepEqual(requiredAccounts(pool), [pool.reserves.baseVault, pool.reserves.quoteVault]);
+
+  const accounts = new Map([
+    [pool.reserves.baseVault, RAYDIUM_BASE_VAULT],
+    [pool.reserves.quoteVault, RAYDIUM_QUOTE_VAULT]
+  ]);
+  assertClose(quotePerBase(pool, accounts), 150);
+});
+
+test('Orca Whirlpool: SOL/USDC with decimals from the mints', () => {
+  const pool = orcaWhirlpoolDecoder.decode(ORCA_SOL_USDC);
+  assert.equal(pool.dex, 'orca');
+  assert.equal(pool.baseMint, SOL);
+  assert.equal(pool.quoteMint, USDC);
+  assert.equal(pool.sqrtPriceX64, 7144393258922745604n);
+  assert.equal(pool.reserves, undefined);
+  assert.deepEqual(requiredAccounts(pool), [SOL, USDC]);
+
+  const accounts = new Map([[SOL, SOL_MINT], [USDC, USDC_MINT]]);
+  assertClose(quotePerBase(pool, accounts), 150);
+});
+
+test('Orca Whirlpool: sqrt price above 2^64 uses the high word', () => {
+  const data = Buffer.alloc(653);
+  // Raw price 4 (sqrt 2) with equal decimals
+  data.writeBigUInt64LE(0n, 65);
+  data.writeBigUInt64LE(2n, 73);
+  writeKey(data, 101, BONK);
+  writeKey(data, 181, USDC);
+
+  const pool = orcaWhirlpoolDecoder.decode(data);
+  assert.equal(pool.sqrtPriceX64, 2n << 64n);
+  assertClose(quotePerBase(pool, new Map([[BONK, mintAccount(6)], [USDC, mintAccount(6)]])), 4);
+});
+
+test('Meteora DLMM: BONK/SOL from the active bin', () => {
+  const pool = meteoraDlmmDecoder.decode(METEORA_BONK_SOL);
+  assert.equal(pool.dex, 'meteora');
+  assert.equal(pool.baseMint, BONK);
+  assert.equal(pool.quoteMint, SOL);
+  assert.deepEqual(pool.activeBin, { activeId: -831, binStep: 80 });
+  assert.deepEqual(requiredAccounts(pool), [BONK, SOL]);
+
+  // 1.008^-831 raw, with BONK at 5 decimals and SOL at 9
+  const accounts = new Map([[BONK, BONK_MINT], [SOL, SOL_MINT]]);
+  assertClose(quotePerBase(pool, accounts), 1.33136709e-7, 1e-8);
+});
+
+test('decoders reject truncated accounts', () => {
+  assert.throws(() => raydiumAmmDecoder.decode(Buffer.alloc(751)), /too short/);
+  assert.throws(() => orcaWhirlpoolDecoder.decode(Buffer.alloc(244)), /too short/);
+  assert.throws(() => meteoraDlmmDecoder.decode(Buffer.alloc(215)), /too short/);
+});
+
+test('quotePerBase reports missing account data', () => {
+  const data = Buffer.alloc(653);
+  writeKey(data, 101, SOL);
+  writeKey(data, 181, USDC);
+  data.writeBigUInt64LE(1n, 73);
+
+  const pool = orcaWhirlpoolDecoder.decode(data);
+  assert.throws(() => quotePerBase(pool, new Map([[SOL, mintAccount(9)]])), new RegExp(`Missing account data for ${USDC}`));
+});
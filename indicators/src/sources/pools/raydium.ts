@@ -0,0 +1,28 @@
+// src/sources/pools/raydium.ts
+import { PublicKey } from '@solana/web3.js';
+import { PoolDecoder, PoolState } from './types';
+
+// Raydium AMM v4 (LIQUIDITY_STATE_LAYOUT_V4, 752 bytes)
+export const raydiumAmmDecoder: PoolDecoder = {
+  dex: 'raydium',
+  programId: '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8',
+  decode(data: Buffer): PoolState {
+    if (data.length < 752) {
+      throw new Error(`Raydium AMM account too short (${data.length} bytes)`);
+    }
+
+    return {
+      dex: 'raydium',
+      baseDecimals: Number(data.readBigUInt64LE(32)),
+      quoteDecimals: Number(data.readBigUInt64LE(40)),
+      baseMint: new PublicKey(data.subarray(400, 432)).toBase58(),
+      quoteMint: new PublicKey(data.subarray(432, 464)).toBase58(),
+      reserves: {
+        baseVault: new PublicKey(data.subarray(336, 368)).toBase58(),
+        quoteVault: new PublicKey(data.subarray(368, 400)).toBase58(),
+        baseOffset: data.readBigUInt64LE(192),    // baseNeedTakePnl
+        quoteOffset: data.readBigUInt64LE(200)    // quoteNeedTakePnl
+      }
+    };
+  }
+};
@@ -0,0 +1,31 @@
+// src/sources/pools/types.ts
+
+// A decoded pool account. Decimals are omitted when the account doesn't
+// store them and must be read from the mints.
+export interface PoolState {
+  dex: string;
+  baseMint: string;
+  quoteMint: string;
+  baseDecimals?: number;
+  quoteDecimals?: number;
+  // Constant-product pools: price from vault balances
+  reserves?: {
+    baseVault: string;
+    quoteVault: string;
+    baseOffset: bigint;     // subtracted from vault balance (e.g. pending PnL)
+    quoteOffset: bigint;
+  };
+  // Concentrated-liquidity pools: Q64.64 sqrt(quote/base) in raw units
+  sqrtPriceX64?: bigint;
+  // Liquidity-book pools: price = (1 + binStep / 10000) ^ activeId in raw units
+  activeBin?: {
+    activeId: number;
+    binStep: number;
+  };
+}
+
+export interface PoolDecoder {
+  readonly dex: string;
+  readonly programId: string;
+  decode(data: Buffer): PoolState;
+}
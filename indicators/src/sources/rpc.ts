@@ -0,0 +1,37 @@
+// src/sources/rpc.ts
+import { Connection, FetchFn } from '@solana/web3.js';
+import { rateLimiter } from '../services/RateLimiter';
+import { UpstreamStatusError, resilience } from '../services/Resilience';
+
+/**
+ * Solana RPC connection whose requests share the RPC rate limiter and the
+ * host's circuit breaker. Each attempt is aborted after the resilience
+ * layer's request timeout; timeouts and 5xx responses are retried there,
+ * while a 429 pauses the limiter and web3.js retries the request itself.
+ */
+export function createConnection(rpcUrl: string = process.env.QUICKNODE_URL || ''): Connection {
+  const limiter = rateLimiter('rpc');
+  const baseFetch: FetchFn = globalThis.fetch;
+
+  const fetch: FetchFn = (input, init) => resilience().execute(String(input), async timeoutMs => {
+    await limiter.acquire();
+
+    const timeout = AbortSignal.timeout(timeoutMs);
+    const response = await baseFetch(input, {
+      ...init,
+      signal: init?.signal ? AbortSignal.any([init.signal, timeout]) : timeout
+    });
+
+    if (response.status === 429) {
+      limiter.recordThrottle(limiter.backoffDelay(response.headers.get('retry-after'), 0));
+    } else if (response.status >= 500) {
+      throw new UpstreamStatusError(response.status, new URL(String(input)).host);
+    }
+    return response;
+  });
+
+  return new Connection(rpcUrl || 'https://api.mainnet-beta.solana.com', {
+    commitment: 'confirmed',
+    fetch
+  });
+}
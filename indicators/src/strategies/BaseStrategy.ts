@@ -0,0 +1,143 @@
+// src/strategies/BaseStrategy.ts
+import { IndicatorData, Trade, TradingStrategy, TrendSignal } from '../types/shared';
+
+export type StrategyAction = 'ENTER' | 'WAIT' | 'HOLD' | 'EXIT';
+
+export interface StrategyContext {
+  signal: TrendSignal | null;
+  indicators: IndicatorData;
+  position?: Trade;          // open trade, already marked to the current price
+}
+
+export interface StrategyDecision {
+  action: StrategyAction;
+  reason: string;
+}
+
+export interface ParameterSpec {
+  type: 'number' | 'boolean';
+  default?: number | boolean;   // omitted = optional with no default
+  min?: number;
+  max?: number;
+  description: string;
+}
+
+// Thrown when a strategy is configured with invalid parameters
+export class StrategyParameterError extends Error {}
+
+export abstract class BaseStrategy {
+  // Parameters shared by every strategy type
+  static readonly COMMON_PARAMETERS: Record<string, ParameterSpec> = {
+    min_confidence: { type: 'number', default: 0.6, min: 0, max: 1, description: 'Minimum signal confidence to enter' },
+    require_stable: { type: 'boolean', default: true, description: 'Only enter on stability-confirmed signals' },
+    stop_loss_pct: { type: 'number', min: 0, description: 'Exit when PnL falls to -N%' },
+    take_profit_pct: { type: 'number', min: 0, description: 'Exit when PnL reaches +N%' },
+    max_hold_minutes: { type: 'number', min: 1, description: 'Exit after holding N minutes' },
+    position_size: { type: 'number', default: 1, min: 0, description: 'Position size in trading currency' }
+  };
+
+  abstract readonly type: TradingStrategy['strategy_type'];
+  readonly parameters: Record<string, any>;
+
+  constructor(parameters: Record<string, any> = {}, specs: Record<string, ParameterSpec> = {}) {
+    this.parameters = BaseStrategy.validateParameters(parameters, { ...BaseStrategy.COMMON_PARAMETERS, ...specs });
+  }
+
+  /**
+   * Decide what to do this cycle: ENTER/WAIT without a position, HOLD/EXIT with one
+   */
+  evaluate(context: StrategyContext): StrategyDecision {
+    return context.position ? this.evaluatePosition(context) : this.evaluateEntry(context);
+  }
+
+  protected evaluateEntry(context: StrategyContext): StrategyDecision {
+    const { signal } = context;
+    const params = this.parameters;
+
+    if (!signal || signal.direction !== 'BUY') {
+      return { action: 'WAIT', reason: `No BUY signal (${signal?.direction ?? 'none'})` };
+    }
+    if (params.require_stable && !signal.stable) {
+      return { action: 'WAIT', reason: 'BUY signal awaiting stability confirmation' };
+    }
+    if (signal.confidence < params.min_confidence) {
+      return { action: 'WAIT', reason: `Confidence ${signal.confidence} below ${params.min_confidence}` };
+    }
+
+    const rejection = this.rejectEntry(context);
+    if (rejection) {
+      return { action: 'WAIT', reason: rejection };
+    }
+
+    return { action: 'ENTER', reason: `BUY signal: ${signal.reason}` };
+  }
+
+  protected evaluatePosition(context: StrategyContext): StrategyDecision {
+    const position = context.position!;
+    const params = this.parameters;
+    const pnlPct = ((context.indicators.price - position.buy_price) / position.buy_price) * 100;
+    const heldMinutes = (context.indicators.timestamp.getTime() / 1000 - position.buy_timestamp) / 60;
+
+    if (params.stop_loss_pct !== undefined && pnlPct <= -params.stop_loss_pct) {
+      return { action: 'EXIT', reason: `Stop loss (${pnlPct.toFixed(2)}% <= -${params.stop_loss_pct}%)` };
+    }
+    if (params.take_profit_pct !== undefined && pnlPct >= params.take_profit_pct) {
+      return { action: 'EXIT', reason: `Take profit (${pnlPct.toFixed(2)}% >= ${params.take_profit_pct}%)` };
+    }
+    if (params.max_hold_minutes !== undefined && heldMinutes >= params.max_hold_minutes) {
+      return { action: 'EXIT', reason: `Max hold time reached (${Math.round(heldMinutes)}min)` };
+    }
+
+    return this.evaluateExit(context, pnlPct) || { action: 'HOLD', reason: `Holding (${pnlPct.toFixed(2)}%)` };
+  }
+
+  /**
+   * Strategy-specific entry filter; return a reason to skip the entry
+   */
+  protected rejectEntry(context: StrategyContext): string | null {
+    return null;
+  }
+
+  /**
+   * Strategy-specific exit rule, checked after the common stop/target/time exits
+   */
+  protected abstract evaluateExit(context: StrategyContext, pnlPct: number): StrategyDecision | null;
+
+  static validateParameters(
+    parameters: Record<string, any>,
+    specs: Record<string, ParameterSpec>
+  ): Record<string, any> {
+    const validated: Record<string, any> = {};
+
+    for (const key of Object.keys(parameters)) {
+      if (!specs[key]) {
+        throw new StrategyParameterError(`Unknown strategy parameter "${key}"`);
+      }
+    }
+
+    for (const [key, spec] of Object.entries(specs)) {
+      const value = parameters[key] ?? spec.default;
+      if (value === undefined) continue;
+
+      if (spec.type === 'boolean') {
+        if (typeof value !== 'boolean') {
+          throw new StrategyParameterError(`Parameter "${key}" must be a boolean`);
+        }
+      } else {
+        if (typeof value !== 'number' || isNaN(value)) {
+          throw new StrategyParameterError(`Parameter "${key}" must be a number`);
+        }
+        if (spec.min !== undefined && value < spec.min) {
+          throw new StrategyParameterError(`Parameter "${key}" must be >= ${spec.min}`);
+        }
+        if (spec.max !== undefined && value > spec.max) {
+          throw new StrategyParameterError(`Parameter "${key}" must be <= ${spec.max}`);
+        }
+      }
+
+      validated[key] = value;
+    }
+
+    return validated;
+  }
+}
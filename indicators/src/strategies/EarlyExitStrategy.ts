@@ -0,0 +1,34 @@
+// src/strategies/EarlyExitStrategy.ts
+import { BaseStrategy, ParameterSpec, StrategyContext, StrategyDecision } from './BaseStrategy';
+
+/**
+ * Short momentum trades: tight stop and target, and out as soon as the
+ * BUY signal fades or the EMA trend turns down.
+ */
+export class EarlyExitStrategy extends BaseStrategy {
+  static readonly PARAMETERS: Record<string, ParameterSpec> = {
+    stop_loss_pct: { type: 'number', default: 3, min: 0, description: 'Exit when PnL falls to -N%' },
+    take_profit_pct: { type: 'number', default: 5, min: 0, description: 'Exit when PnL reaches +N%' },
+    max_hold_minutes: { type: 'number', default: 120, min: 1, description: 'Exit after holding N minutes' },
+    exit_on_ema_down: { type: 'boolean', default: true, description: 'Exit when the EMA trend turns down' }
+  };
+
+  readonly type = 'early_exit' as const;
+
+  constructor(parameters: Record<string, any> = {}) {
+    super(parameters, EarlyExitStrategy.PARAMETERS);
+  }
+
+  protected evaluateExit(context: StrategyContext, pnlPct: number): StrategyDecision | null {
+    const { signal, indicators } = context;
+
+    if (signal && signal.direction !== 'BUY') {
+      return { action: 'EXIT', reason: `BUY signal ended (${signal.direction}): ${signal.reason}` };
+    }
+    if (this.parameters.exit_on_ema_down && indicators.ema_trend === 'down') {
+      return { action: 'EXIT', reason: `EMA trend turned down (${pnlPct.toFixed(2)}%)` };
+    }
+
+    return null;
+  }
+}
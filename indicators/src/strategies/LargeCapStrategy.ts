@@ -0,0 +1,43 @@
+// src/strategies/LargeCapStrategy.ts
+import { BaseStrategy, ParameterSpec, StrategyContext, StrategyDecision } from './BaseStrategy';
+
+/**
+ * Only trades established tokens above a market-cap floor, with wider
+ * stops and holding until a SELL signal.
+ */
+export class LargeCapStrategy extends BaseStrategy {
+  static readonly PARAMETERS: Record<string, ParameterSpec> = {
+    min_market_cap: { type: 'number', default: 100_000_000, min: 0, description: 'Minimum market cap to enter' },
+    min_volume_to_cap: { type: 'number', default: 0, min: 0, description: 'Minimum 24h volume / market cap ratio' },
+    stop_loss_pct: { type: 'number', default: 5, min: 0, description: 'Exit when PnL falls to -N%' },
+    take_profit_pct: { type: 'number', default: 10, min: 0, description: 'Exit when PnL reaches +N%' },
+    max_hold_minutes: { type: 'number', default: 1440, min: 1, description: 'Exit after holding N minutes' }
+  };
+
+  readonly type = 'large_cap' as const;
+
+  constructor(parameters: Record<string, any> = {}) {
+    super(parameters, LargeCapStrategy.PARAMETERS);
+  }
+
+  protected rejectEntry(context: StrategyContext): string | null {
+    const { market_cap, volume_to_cap_ratio } = context.indicators;
+
+    if (market_cap < this.parameters.min_market_cap) {
+      return `Market cap ${Math.round(market_cap)} below ${this.parameters.min_market_cap}`;
+    }
+    if (volume_to_cap_ratio < this.parameters.min_volume_to_cap) {
+      return `Volume/cap ratio ${volume_to_cap_ratio.toFixed(4)} below ${this.parameters.min_volume_to_cap}`;
+    }
+
+    return null;
+  }
+
+  protected evaluateExit(context: StrategyContext): StrategyDecision | null {
+    if (context.signal?.direction === 'SELL') {
+      return { action: 'EXIT', reason: `SELL signal: ${context.signal.reason}` };
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,41 @@
+// src/strategies/TrailingHoldStrategy.ts
+import { BaseStrategy, ParameterSpec, StrategyContext, StrategyDecision } from './BaseStrategy';
+
+/**
+ * Lets winners run: once PnL passes the activation level, exit only when
+ * price falls trailing_pct from its peak.
+ */
+export class TrailingHoldStrategy extends BaseStrategy {
+  static readonly PARAMETERS: Record<string, ParameterSpec> = {
+    trailing_pct: { type: 'number', default: 5, min: 0.1, max: 100, description: 'Exit on an N% drop from the peak' },
+    activation_pct: { type: 'number', default: 2, min: 0, description: 'Peak PnL needed before the trail is armed' },
+    stop_loss_pct: { type: 'number', default: 8, min: 0, description: 'Exit when PnL falls to -N%' },
+    exit_on_sell: { type: 'boolean', default: false, description: 'Also exit on a SELL signal' }
+  };
+
+  readonly type = 'trailing_hold' as const;
+
+  constructor(parameters: Record<string, any> = {}) {
+    super(parameters, TrailingHoldStrategy.PARAMETERS);
+  }
+
+  protected evaluateExit(context: StrategyContext, pnlPct: number): StrategyDecision | null {
+    const position = context.position!;
+    const peakPnlPct = Math.max(position.peak_pnl_pct || 0, pnlPct);
+
+    if (peakPnlPct >= this.parameters.activation_pct) {
+      const peakPrice = position.buy_price * (1 + peakPnlPct / 100);
+      const dropPct = ((peakPrice - context.indicators.price) / peakPrice) * 100;
+
+      if (dropPct >= this.parameters.trailing_pct) {
+        return { action: 'EXIT', reason: `Trailing stop (${dropPct.toFixed(2)}% off peak, +${peakPnlPct.toFixed(2)}% peak)` };
+      }
+    }
+
+    if (this.parameters.exit_on_sell && context.signal?.direction === 'SELL') {
+      return { action: 'EXIT', reason: `SELL signal: ${context.signal.reason}` };
+    }
+
+    return null;
+  }
+}
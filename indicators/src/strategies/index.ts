@@ -0,0 +1,31 @@
+// src/strategies/index.ts
+import { TradingStrategy } from '../types/shared';
+import { BaseStrategy, StrategyParameterError } from './BaseStrategy';
+import { EarlyExitStrategy } from './EarlyExitStrategy';
+import { LargeCapStrategy } from './LargeCapStrategy';
+import { TrailingHoldStrategy } from './TrailingHoldStrategy';
+
+export { BaseStrategy, StrategyParameterError } from './BaseStrategy';
+export type { StrategyAction, StrategyContext, StrategyDecision, ParameterSpec } from './BaseStrategy';
+export { EarlyExitStrategy } from './EarlyExitStrategy';
+export { LargeCapStrategy } from './LargeCapStrategy';
+export { TrailingHoldStrategy } from './TrailingHoldStrategy';
+export { openTrade, markTrade, closeTrade } from './trades';
+
+export const STRATEGY_TYPES: TradingStrategy['strategy_type'][] = ['early_exit', 'large_cap', 'trailing_hold'];
+
+/**
+ * Build an executable strategy from its stored definition, validating parameters
+ */
+export function createStrategy(strategy: Pick<TradingStrategy, 'strategy_type' | 'parameters'>): BaseStrategy {
+  switch (strategy.strategy_type) {
+    case 'early_exit':
+      return new EarlyExitStrategy(strategy.parameters);
+    case 'large_cap':
+      return new LargeCapStrategy(strategy.parameters);
+    case 'trailing_hold':
+      return new TrailingHoldStrategy(strategy.parameters);
+    default:
+      throw new StrategyParameterError(`Unknown strategy type "${strategy.strategy_type}"`);
+  }
+}
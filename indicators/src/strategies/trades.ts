@@ -0,0 +1,49 @@
+// src/strategies/trades.ts
+import { Trade, TrendSignal } from '../types/shared';
+import { BaseStrategy } from './BaseStrategy';
+
+// Trade bookkeeping shared by paper trading and backtests
+
+export function openTrade(
+  strategy: BaseStrategy,
+  symbol: string,
+  price: number,
+  timestamp: number,
+  signal: TrendSignal | null,
+  extra: Partial<Trade> = {}
+): Trade {
+  return {
+    symbol,
+    strategy_type: strategy.type,
+    buy_price: price,
+    buy_timestamp: timestamp,
+    entry_signal: signal?.reason,
+    amount_tokens: strategy.parameters.position_size / price,
+    peak_pnl_pct: 0,
+    drawdown_pct: 0,
+    is_backtest: 0,
+    ...extra
+  };
+}
+
+/**
+ * Update peak PnL and the deepest drawdown from peak at the current price
+ */
+export function markTrade(trade: Trade, price: number): void {
+  const pnlPct = ((price - trade.buy_price) / trade.buy_price) * 100;
+  trade.peak_pnl_pct = Math.max(trade.peak_pnl_pct || 0, pnlPct);
+
+  const peakPrice = trade.buy_price * (1 + trade.peak_pnl_pct / 100);
+  trade.drawdown_pct = Math.max(trade.drawdown_pct || 0, ((peakPrice - price) / peakPrice) * 100);
+}
+
+export function closeTrade(trade: Trade, price: number, timestamp: number, reason: string): Trade {
+  return {
+    ...trade,
+    sell_price: price,
+    sell_timestamp: timestamp,
+    reason,
+    pnl_pct: ((price - trade.buy_price) / trade.buy_price) * 100,
+    duration_seconds: timestamp - trade.buy_timestamp
+  };
+}
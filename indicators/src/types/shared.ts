@@ -26,6 +26,19 @@ export interface RoutingInfo {
   lastChecked: string;
 }
 
+// Currency a token's price history and signals are denominated in
+export type TradingCurrency = 'SOL' | 'USDC' | 'USD';
+
+// On-chain mint account details, cached in TokenConfig.metadata.mintInfo
+export interface MintInfo {
+  decimals: number;
+  supply: string;               // raw u64 amount as a decimal string
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  tokenProgram: string;
+  lastChecked: string;
+}
+
 export interface TokenConfig {
   symbol: string;
   pair: string;
@@ -35,6 +48,8 @@ export interface TokenConfig {
   signal?: TrendSignal;
   metadata?: {
     routing?: RoutingInfo;
+    mintInfo?: MintInfo;
+    tradingCurrency?: TradingCurrency;
     [key: string]: any;
   };
 }
@@ -48,6 +63,15 @@ export interface UpdateResult {
     NONE: number;
   };
   errors: string[];
+  updates: TokenUpdate[];
+}
+
+// Per-token outcome of a single update cycle
+export interface TokenUpdate {
+  symbol: string;
+  indicators: IndicatorData;
+  signal?: TrendSignal;
+  transition?: SignalTransition | null;
 }
 
 export interface IndicatorData {
@@ -57,6 +81,7 @@ export interface IndicatorData {
   native_currency: string;
   trading_currency: string;
   currency_mismatch: number;
+  price_usd?: number;
   rsi_1m: number;
   rsi_5m: number;
   rsi_15m: number;
@@ -73,6 +98,7 @@ export interface IndicatorData {
   volatility_pct: number;
   decimals: number;
   analysis_mode: string;
+  price_source?: string;
   timestamp: Date;
 }
 
@@ -91,6 +117,29 @@ export interface SignalData {
   expires_at: number;
 }
 
+export interface SignalTransition {
+  symbol: string;
+  from_direction: string | null;
+  to_direction: string;
+  confidence: number;
+  reason: string;
+  transitioned_at: number;
+}
+
+export interface HistoryRange {
+  from?: number;    // unix seconds
+  to?: number;      // unix seconds
+  limit?: number;
+  offset?: number;
+}
+
+export interface PaginatedResult<T> {
+  items: T[];
+  limit: number;
+  offset: number;
+  hasMore: boolean;
+}
+
 export interface PriceData {
   symbol: string;
   price: number;
@@ -113,6 +162,7 @@ export interface TradingStrategy {
 export interface Trade {
   id?: number;
   wallet_address?: string;
+  strategy_id?: number;
   symbol: string;
   strategy_type: string;
   buy_price: number;
@@ -132,6 +182,35 @@ export interface Trade {
   backtest_id?: string;
 }
 
+export interface PricePoint {
+  timestamp: number;        // unix seconds
+  price: number;
+  volume?: number;
+  marketCap?: number;
+}
+
+export interface BacktestSummary {
+  backtest_id: string;
+  symbol: string;
+  strategy_type: string;
+  trade_count: number;
+  win_rate: number;            // 0-1
+  total_pnl_pct: number;       // compounded across trades
+  max_drawdown_pct: number;    // on the compounded equity curve
+  avg_hold_seconds: number;
+  points_replayed: number;
+  from: number | null;
+  to: number | null;
+}
+
+// OHLCV rollup resolutions, finest first
+export type CandleInterval = '5m' | '1h' | '1d';
+
+export interface RollupProgress {
+  candles: number;                // candle rows written
+  rolledUntil: number | null;     // unix seconds; null while there is nothing to roll
+}
+
 export interface SystemConfig {
   key: string;
   value: string;
@@ -139,6 +218,37 @@ export interface SystemConfig {
   updated_at?: number;
 }
 
+export interface WebhookSubscription {
+  id?: number;
+  url: string;
+  secret: string;
+  symbols: string[];        // empty = all symbols
+  directions: ('BUY' | 'SELL')[];
+  min_confidence: number;
+  stable_only: boolean;
+  active: boolean;
+  created_at?: number;
+}
+
+export interface WebhookPayload {
+  event: 'signal.transition';
+  symbol: string;
+  transition: SignalTransition;
+  signal: TrendSignal;
+  indicators: IndicatorData;
+  sent_at: number;
+}
+
+export interface WebhookDeadLetter {
+  id?: number;
+  subscription_id: number;
+  url: string;
+  payload: WebhookPayload;
+  error: string;
+  attempts: number;
+  failed_at: number;
+}
+
 // API Response types
 export interface ApiResponse<T = any> {
   success: boolean;
@@ -191,21 +301,86 @@ export interface DexScreenerPair {
   marketCap?: number;
 }
 
+// A discovered pool for a token, ranked best first
+export interface PairCandidate {
+  symbol: string;
+  pair_address: string;
+  dex_id: string;
+  quote_currency: string;
+  liquidity_usd: number;
+  volume_24h: number;
+  score: number;
+  rank: number;
+  discovered_at: number;
+}
+
 // Service interface types
 export interface IIndicatorService {
   updateAllTokens(): Promise<UpdateResult>;
 }
 
+// Outcome of a bulk write, with per-row failures
+export interface BulkWriteResult {
+  saved: number;
+  failed: number;
+  errors: string[];
+}
+
+// Storage backend; implemented for Cloudflare D1 and embedded SQLite
 export interface IDatabaseService {
   initialize(): Promise<void>;
-  getTokens(): Promise<TokenConfig[]>;
+  close(): Promise<void>;
+
+  // Tokens
+  getTokens(activeOnly?: boolean): Promise<TokenConfig[]>;
   saveToken(token: TokenConfig): Promise<void>;
   deleteToken(symbol: string): Promise<void>;
+  getTokenStatistics(): Promise<{
+    totalTokens: number;
+    activeTokens: number;
+    totalIndicators: number;
+    activeSignals: number;
+    latestUpdate: number | null;
+  }>;
+
+  // Prices and indicators
+  savePriceData(data: Omit<PriceData, 'quoteToken'>): Promise<void>;
+  getRecentPrices(symbol: string, minutes: number): Promise<number[]>;
   saveFullIndicators(indicators: IndicatorData): Promise<void>;
-  saveSignal(signal: SignalData): Promise<void>;
-  getActiveSignals(symbol?: string): Promise<any[]>;
-  getLatestIndicators(symbol?: string): Promise<any[]>;
-  close(): Promise<void>;
+  bulkSaveIndicators(indicatorsList: IndicatorData[]): Promise<BulkWriteResult>;
+  getLatestIndicators(symbol?: string): Promise<IndicatorData[]>;
+  getIndicatorHistory(symbol: string, hours?: number, range?: HistoryRange): Promise<IndicatorData[]>;
+  cleanupOldIndicators(daysToKeep?: number): Promise<void>;
+
+  // Candle rollups
+  rollupCandles(interval: CandleInterval, until: number): Promise<RollupProgress>;
+  cleanupOldCandles(interval: CandleInterval, daysToKeep: number): Promise<void>;
+
+  // Signals
+  saveSignal(signal: SignalData): Promise<SignalTransition | null>;
+  bulkSaveSignals(signalsList: SignalData[]): Promise<BulkWriteResult & { transitions: (SignalTransition | null)[] }>;
+  getActiveSignals(symbol?: string): Promise<SignalData[]>;
+  getSignalHistory(symbol: string, hours?: number, range?: HistoryRange): Promise<SignalData[]>;
+  getSignalTransitions(symbol: string, hours?: number): Promise<SignalTransition[]>;
+  cleanupExpiredSignals(keepDays?: number): Promise<void>;
+
+  // Webhooks
+  getWebhookSubscriptions(activeOnly?: boolean): Promise<WebhookSubscription[]>;
+  saveWebhookSubscription(subscription: WebhookSubscription): Promise<number>;
+  deleteWebhookSubscription(id: number): Promise<void>;
+  saveWebhookDeadLetter(deadLetter: WebhookDeadLetter): Promise<void>;
+  getWebhookDeadLetters(limit?: number): Promise<WebhookDeadLetter[]>;
+
+  // Trades and strategies
+  saveTrade(trade: Trade): Promise<number>;
+  getTrades(filter?: { backtestId?: string; symbol?: string; isBacktest?: boolean; openOnly?: boolean }): Promise<Trade[]>;
+  getStrategies(activeOnly?: boolean): Promise<TradingStrategy[]>;
+  saveStrategy(strategy: TradingStrategy): Promise<number>;
+  deleteStrategy(id: number): Promise<void>;
+
+  // Pair discovery
+  getPairCandidates(symbol: string): Promise<PairCandidate[]>;
+  savePairCandidates(symbol: string, candidates: PairCandidate[]): Promise<void>;
 }
 
 export interface ITokenManager {